@@ -0,0 +1,7 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  // The React client has its own package.json and test runner
+  roots: ['<rootDir>/src']
+};
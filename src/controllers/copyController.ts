@@ -0,0 +1,43 @@
+// Copy controller - namespace copy/migration endpoint
+
+import { Request, Response } from 'express';
+import copyService from '../services/copyService';
+import { MetadataFilterEngine } from '../utils/metadataFilter';
+
+// Helper function to normalize namespace ("default" string or empty -> empty string)
+const normalizeNamespace = (namespace: any): string => {
+  if (!namespace || namespace === 'default') return '';
+  return namespace as string;
+};
+
+export const copyNamespace = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, targetIndex, targetNamespace, filter, mode = 'overwrite', idPrefix } = req.body || {};
+
+    console.log(`📦 Copy request from ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')} to ${targetIndex || indexName}:${(normalizeNamespace(targetNamespace) || '(no namespace)')}`);
+
+    const result = await copyService.copyNamespace(indexName, {
+      sourceNamespace: normalizeNamespace(namespace),
+      targetIndex,
+      targetNamespace: normalizeNamespace(targetNamespace),
+      filter: MetadataFilterEngine.parse(filter),
+      mode,
+      idPrefix
+    });
+
+    res.json({
+      success: result.failed === 0,
+      data: result,
+      message: `Copied ${result.copied} records, skipped ${result.skipped}, ${result.failed} failed`
+    });
+
+  } catch (error: any) {
+    console.error('Namespace copy failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Copy failed. Records copied before the failure are already in the target.'
+    });
+  }
+};
@@ -2,7 +2,11 @@
 // Jean-Claude's comprehensive duplicate elimination endpoints
 
 import { Request, Response } from 'express';
-import deduplicationService from '../services/deduplicationService';
+import deduplicationService, { DeduplicationStrategy, DuplicateLocation, SimilarityMode } from '../services/deduplicationService';
+import { MetadataMergeEngine } from '../utils/metadataMerge';
+import { SurvivorSelector } from '../utils/survivorRules';
+import duplicateVerdictService from '../services/duplicateVerdictService';
+import deduplicationReportService, { REPORT_CONTENT_TYPES, REPORT_EXTENSIONS, REPORT_FORMATS, ReportFormat } from '../services/deduplicationReportService';
 
 // Helper function to normalize namespace ("default" string or empty -> empty string)
 const normalizeNamespace = (namespace: any): string => {
@@ -10,17 +14,26 @@ const normalizeNamespace = (namespace: any): string => {
   return namespace as string;
 };
 
+// Missing stays missing so the service default applies; anything else goes through Number, so "abc" becomes NaN and gets refused
+const parseNumberParam = (value: any): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'number' ? value : Number(value);
+};
+
 export const analyzeForDuplicates = async (req: Request, res: Response) => {
   try {
     const { indexName } = req.params;
     const {
       namespace,
       similarity = 'fuzzy',
-      threshold = 85,
+      threshold,
       includeKeys,
       excludeKeys,
       maxDocuments = 1000,
-      strategy = 'keep-first'
+      strategy = 'keep-first',
+      mergeRules,
+      survivorRules,
+      ttlHours
     } = req.query;
 
     console.log(`🔍 Duplicate analysis request for ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')}`);
@@ -34,12 +47,17 @@ export const analyzeForDuplicates = async (req: Request, res: Response) => {
     };
 
     const options = {
-      similarity: similarity as 'exact' | 'fuzzy' | 'custom',
-      threshold: parseInt(threshold as string),
+      similarity: similarity as SimilarityMode,
+      // Vector thresholds are fractions (0.99), so no parseInt; each mode has its own default
+      threshold: parseNumberParam(threshold),
       includeKeys: parseArrayParam(includeKeys),
       excludeKeys: parseArrayParam(excludeKeys),
-      maxDocuments: parseInt(maxDocuments as string),
-      strategy: strategy as 'keep-first' | 'keep-newest' | 'manual'
+      // maxDocuments=all scans the whole namespace (metadata modes only)
+      maxDocuments: maxDocuments === 'all' ? 0 : parseInt(maxDocuments as string) || 1000,
+      strategy: strategy as DeduplicationStrategy,
+      mergeRules: MetadataMergeEngine.parseRules(mergeRules),
+      survivorRules: SurvivorSelector.parseRules(survivorRules),
+      ttlHours: parseNumberParam(ttlHours)
     };
 
     const analysis = await deduplicationService.findMetadataDuplicates(
@@ -51,12 +69,12 @@ export const analyzeForDuplicates = async (req: Request, res: Response) => {
     res.json({
       success: true,
       data: analysis,
-      message: `Found ${analysis.duplicateGroups.length} duplicate groups in ${analysis.totalDocuments} documents`
+      message: `Found ${analysis.duplicateGroups.length} duplicate groups after scanning ${analysis.analyzedDocuments} of ${analysis.totalDocuments} documents`
     });
 
   } catch (error: any) {
     console.error('Duplicate analysis failed:', error);
-    res.status(500).json({
+    res.status(error.status || 500).json({
       success: false,
       error: error.message,
       message: 'Duplicate analysis failed. Jean-Claude is investigating the metadata...'
@@ -67,27 +85,31 @@ export const analyzeForDuplicates = async (req: Request, res: Response) => {
 export const previewDuplicates = async (req: Request, res: Response) => {
   try {
     const { indexName } = req.params;
-    const { namespace, groupId } = req.query;
+    const { analysisId, groupId } = req.query;
 
-    console.log(`👀 Duplicate preview request for group ${groupId} in ${indexName}`);
+    if (!analysisId || !groupId) {
+      res.status(400).json({
+        success: false,
+        error: 'analysisId and groupId are required',
+        message: 'Tell Jean-Claude which analysis and which group to preview'
+      });
+      return;
+    }
+
+    console.log(`👀 Duplicate preview request for group ${groupId} of ${analysisId} in ${indexName}`);
 
-    // This endpoint could be used to get detailed preview of specific duplicate groups
-    // For now, we'll return a simple response as the main analysis already provides preview data
+    const preview = await deduplicationService.previewGroup(indexName, analysisId as string, groupId as string);
+    const differing = preview.fieldDiff.filter(field => !field.identical).length;
 
     res.json({
       success: true,
-      data: {
-        message: 'Duplicate preview data is included in the analysis response',
-        groupId: groupId || 'all',
-        indexName,
-        namespace: (normalizeNamespace(namespace) || '(no namespace)')
-      },
-      message: 'Preview data available in analysis results'
+      data: preview,
+      message: `${preview.documents.length} documents, ${differing} of ${preview.fieldDiff.length} fields differ`
     });
 
   } catch (error: any) {
     console.error('Duplicate preview failed:', error);
-    res.status(500).json({
+    res.status(error.status || 500).json({
       success: false,
       error: error.message,
       message: 'Failed to preview duplicates'
@@ -98,10 +120,9 @@ export const previewDuplicates = async (req: Request, res: Response) => {
 export const deleteDuplicates = async (req: Request, res: Response) => {
   try {
     const { indexName } = req.params;
-    const { namespace } = req.query;
-    const { duplicateGroups, confirmDeletion } = req.body;
+    const { analysisId, groupIds, confirmDeletion, snapshot } = req.body;
 
-    console.log(`🗑️ Duplicate deletion request for ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')}`);
+    console.log(`🗑️ Duplicate deletion request for ${indexName}, analysis ${analysisId}`);
 
     // Safety check - require explicit confirmation
     if (!confirmDeletion) {
@@ -113,34 +134,23 @@ export const deleteDuplicates = async (req: Request, res: Response) => {
       return;
     }
 
-    // Validate duplicate groups data
-    if (!duplicateGroups || !Array.isArray(duplicateGroups) || duplicateGroups.length === 0) {
+    // Groups come from the stored analysis only - posted groups could name any ID in the index
+    if (!analysisId || !Array.isArray(groupIds) || groupIds.length === 0 || !groupIds.every(id => typeof id === 'string')) {
       res.status(400).json({
         success: false,
-        error: 'Invalid duplicate groups data',
-        message: 'Please provide valid duplicate groups to delete'
+        error: 'analysisId and a non-empty groupIds array are required',
+        message: 'Please provide the analysis ID and the groups to delete'
       });
       return;
     }
 
-    // Validate that each group has the required structure
-    for (const group of duplicateGroups) {
-      if (!group.id || !group.documents || !Array.isArray(group.documents)) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid duplicate group structure',
-          message: `Group ${group.id || 'unknown'} is missing required fields`
-        });
-        return;
-      }
-    }
+    console.log(`Deleting ${groupIds.length} duplicate groups...`);
 
-    console.log(`Deleting ${duplicateGroups.length} duplicate groups...`);
-
-    const deletionResult = await deduplicationService.deleteDuplicates(
+    const deletionResult = await deduplicationService.deleteAnalysisGroups(
       indexName,
-      duplicateGroups,
-      normalizeNamespace(namespace)
+      analysisId,
+      groupIds,
+      { snapshot: snapshot === true }
     );
 
     res.json({
@@ -153,7 +163,7 @@ export const deleteDuplicates = async (req: Request, res: Response) => {
 
   } catch (error: any) {
     console.error('Duplicate deletion failed:', error);
-    res.status(500).json({
+    res.status(error.status || 500).json({
       success: false,
       error: error.message,
       message: 'Duplicate deletion failed. Your data is safe, but Jean-Claude is investigating...'
@@ -164,50 +174,278 @@ export const deleteDuplicates = async (req: Request, res: Response) => {
 export const getDuplicationReport = async (req: Request, res: Response) => {
   try {
     const { indexName } = req.params;
-    const { namespace, format = 'json' } = req.query;
+    const { analysisId, format = 'json', scope = 'all', download } = req.query;
 
-    console.log(`📊 Deduplication report request for ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')}`);
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported format',
+        message: `Report format must be one of: ${REPORT_FORMATS.join(', ')}`
+      });
+      return;
+    }
 
-    // This could be expanded to generate comprehensive reports
-    // For now, return basic metrics that could be gathered from previous analyses
+    if (!analysisId) {
+      res.status(400).json({
+        success: false,
+        error: 'analysisId is required',
+        message: 'Run a duplicate analysis first, then ask for its report'
+      });
+      return;
+    }
 
-    const reportData = {
-      indexName,
-      namespace: (normalizeNamespace(namespace) || '(no namespace)'),
-      reportType: 'deduplication-summary',
-      generatedAt: new Date().toISOString(),
-      summary: {
-        message: 'Use the analyze endpoint to generate detailed duplication analysis',
-        supportedFormats: ['json'],
-        recommendations: [
-          'Run duplicate analysis regularly to maintain data quality',
-          'Use exact matching for high-confidence duplicate removal',
-          'Preview duplicates before deletion to avoid data loss',
-          'Keep audit trails for compliance and debugging'
-        ]
-      }
-    };
+    console.log(`📊 Deduplication report request for ${analysisId} in ${indexName} as ${format}`);
+
+    const report = await deduplicationReportService.buildReport(indexName, analysisId as string, {
+      deletedOnly: scope === 'deleted'
+    });
 
     if (format === 'json') {
       res.json({
         success: true,
-        data: reportData,
-        message: 'Deduplication report generated'
+        data: report,
+        message: `Report for ${report.totals.duplicateGroups} duplicate groups, ${report.totals.deletedGroups} deleted`
       });
-    } else {
+      return;
+    }
+
+    const reportFormat = format as Exclude<ReportFormat, 'json'>;
+    const fileName = `${indexName}-${analysisId}-report.${REPORT_EXTENSIONS[reportFormat]}`;
+
+    res.setHeader('Content-Type', REPORT_CONTENT_TYPES[reportFormat]);
+    res.setHeader('Content-Disposition', `${download === 'true' ? 'attachment' : 'inline'}; filename="${fileName.replace(/[^\w.-]/g, '_')}"`);
+    res.send(deduplicationReportService.render(report, reportFormat));
+
+  } catch (error: any) {
+    console.error('Report generation failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to generate deduplication report'
+    });
+  }
+};
+
+export const recordDuplicateVerdicts = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, ...verdict } = req.body || {};
+
+    // Who decided: the authenticated user when there is one - the body can't speak for someone else
+    const userHeader = req.headers['x-openrun-user'];
+    const authenticatedUser = (Array.isArray(userHeader) ? userHeader[0] : userHeader)?.trim();
+    const reviewer = authenticatedUser || verdict.reviewer;
+
+    console.log(`⚖️ Duplicate verdict request for ${indexName}: ${verdict.verdict} by ${reviewer || '(nobody)'}`);
+
+    const recorded = await deduplicationService.recordVerdicts(indexName, normalizeNamespace(namespace), { ...verdict, reviewer });
+
+    res.json({
+      success: true,
+      data: recorded,
+      message: `Recorded ${recorded.length} "${recorded[0].verdict}" verdicts. Jean-Claude will remember.`
+    });
+
+  } catch (error: any) {
+    console.error('Recording duplicate verdicts failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to record duplicate verdicts'
+    });
+  }
+};
+
+export const listDuplicateVerdicts = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, verdict } = req.query;
+
+    const verdicts = (await duplicateVerdictService.listVerdicts(indexName, normalizeNamespace(namespace)))
+      .filter(entry => !verdict || entry.verdict === verdict);
+
+    res.json({
+      success: true,
+      data: verdicts,
+      message: `${verdicts.length} reviewed pairs`
+    });
+
+  } catch (error: any) {
+    console.error('Listing duplicate verdicts failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to list duplicate verdicts'
+    });
+  }
+};
+
+export const getDuplicatePrecision = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, mode = 'metadata', thresholds, targetPrecision } = req.query;
+
+    if (mode !== 'metadata' && mode !== 'vector') {
       res.status(400).json({
         success: false,
-        error: 'Unsupported format',
-        message: 'Currently only JSON format is supported'
+        error: 'Unsupported mode',
+        message: 'mode must be metadata or vector'
+      });
+      return;
+    }
+
+    const report = await duplicateVerdictService.precisionReport(indexName, normalizeNamespace(namespace), {
+      mode,
+      thresholds: thresholds ? (thresholds as string).split(',').map(value => parseFloat(value)) : undefined,
+      targetPrecision: targetPrecision ? parseFloat(targetPrecision as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: report,
+      message: report.suggestedThreshold !== null
+        ? `${report.reviewedPairs} reviewed pairs; threshold ${report.suggestedThreshold} reaches ${report.targetPrecision * 100}% precision`
+        : `${report.reviewedPairs} reviewed pairs; no threshold reaches ${report.targetPrecision * 100}% precision yet`
+    });
+
+  } catch (error: any) {
+    console.error('Precision report failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to compute duplicate precision'
+    });
+  }
+};
+
+// Locations arrive as [{ indexName, namespace }]; "default" and missing namespaces mean the default one
+const parseLocations = (raw: any): DuplicateLocation[] | undefined => {
+  if (!Array.isArray(raw) || !raw.every(location => location && typeof location.indexName === 'string' && location.indexName)) {
+    return undefined;
+  }
+  return raw.map(location => ({ indexName: location.indexName, namespace: normalizeNamespace(location.namespace) }));
+};
+
+export const analyzeCrossLocationDuplicates = async (req: Request, res: Response) => {
+  try {
+    const {
+      locations,
+      similarity = 'fuzzy',
+      threshold,
+      includeKeys,
+      excludeKeys,
+      maxDocuments = 1000,
+      strategy = 'keep-first',
+      survivorRules,
+      includeSingleLocation,
+      ttlHours
+    } = req.body || {};
+
+    const parsedLocations = parseLocations(locations);
+    if (!parsedLocations) {
+      res.status(400).json({
+        success: false,
+        error: 'locations must be an array of { indexName, namespace }',
+        message: 'Tell Jean-Claude where to look for duplicates'
       });
+      return;
     }
 
+    console.log(`🔍 Cross-location duplicate analysis request for ${parsedLocations.length} locations`);
+
+    const analysis = await deduplicationService.findCrossLocationDuplicates(parsedLocations, {
+      similarity,
+      threshold: parseNumberParam(threshold),
+      includeKeys: Array.isArray(includeKeys) ? includeKeys : undefined,
+      excludeKeys: Array.isArray(excludeKeys) ? excludeKeys : undefined,
+      // maxDocuments is per location; "all" scans every location completely
+      maxDocuments: maxDocuments === 'all' ? 0 : parseInt(maxDocuments) || 1000,
+      strategy,
+      survivorRules: SurvivorSelector.parseRules(survivorRules),
+      includeSingleLocation: includeSingleLocation === true,
+      ttlHours: parseNumberParam(ttlHours)
+    });
+
+    const spanning = analysis.duplicateGroups.filter(group => group.spansLocations).length;
+
+    res.json({
+      success: true,
+      data: analysis,
+      message: `Found ${spanning} duplicate groups spanning more than one location`
+    });
+
   } catch (error: any) {
-    console.error('Report generation failed:', error);
-    res.status(500).json({
+    console.error('Cross-location duplicate analysis failed:', error);
+    res.status(error.status || 500).json({
       success: false,
       error: error.message,
-      message: 'Failed to generate deduplication report'
+      message: 'Cross-location duplicate analysis failed. Jean-Claude is comparing notes across namespaces...'
+    });
+  }
+};
+
+export const getCrossLocationAnalysis = async (req: Request, res: Response) => {
+  try {
+    const { analysisId } = req.params;
+    const stored = await deduplicationService.getCrossLocationAnalysis(analysisId);
+
+    res.json({
+      success: true,
+      data: { ...stored.analysis, deletions: stored.deletions },
+      message: `${stored.analysis.duplicateGroups.length} groups across ${stored.analysis.locations.length} locations`
+    });
+
+  } catch (error: any) {
+    console.error('Loading cross-location analysis failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to load cross-location analysis'
     });
   }
-};
\ No newline at end of file
+};
+
+export const deleteCrossLocationDuplicates = async (req: Request, res: Response) => {
+  try {
+    const { analysisId, groupIds, locations, confirmDeletion, snapshot } = req.body || {};
+
+    if (!confirmDeletion) {
+      res.status(400).json({
+        success: false,
+        error: 'Deletion confirmation required',
+        message: 'You must explicitly confirm deletion by setting confirmDeletion: true'
+      });
+      return;
+    }
+
+    const scope = parseLocations(locations);
+    if (!analysisId || !Array.isArray(groupIds) || groupIds.length === 0 || !groupIds.every(id => typeof id === 'string') || !scope) {
+      res.status(400).json({
+        success: false,
+        error: 'analysisId, a non-empty groupIds array and the locations to delete from are required',
+        message: 'Please provide the analysis ID, the groups, and where to delete them'
+      });
+      return;
+    }
+
+    console.log(`🗑️ Cross-location deletion request for analysis ${analysisId}`);
+
+    const deletionResult = await deduplicationService.deleteCrossLocationGroups(analysisId, groupIds, scope, { snapshot: snapshot === true });
+
+    res.json({
+      success: deletionResult.success,
+      data: deletionResult,
+      message: deletionResult.success
+        ? `Successfully deleted ${deletionResult.deletedDocuments} duplicate documents in ${deletionResult.deletedGroups} groups`
+        : `Deletion completed with ${deletionResult.errors.length} errors. ${deletionResult.deletedDocuments} documents deleted.`
+    });
+
+  } catch (error: any) {
+    console.error('Cross-location deletion failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Cross-location deletion failed. Your data is safe, but Jean-Claude is investigating...'
+    });
+  }
+};
@@ -0,0 +1,72 @@
+// Export controller - streams filtered document lists as CSV, JSONL or XLSX downloads
+
+import { Request, Response } from 'express';
+import exportService, { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+import { MetadataFilterEngine } from '../utils/metadataFilter';
+
+// Helper function to normalize namespace ("default" string or empty -> empty string)
+const normalizeNamespace = (namespace: any): string => {
+  if (!namespace || namespace === 'default') return '';
+  return namespace as string;
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export const exportDocuments = async (req: Request, res: Response) => {
+  const { indexName } = req.params;
+  const { namespace, format = 'csv', filter, columns, includeValues, listSeparator } = req.query;
+
+  try {
+    const exportFormat = String(format).toLowerCase() as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(exportFormat)) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported format',
+        message: `Export format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    // Parse everything that can fail before the first byte goes out - after that, no more JSON errors
+    const parsedFilter = MetadataFilterEngine.parse(filter);
+    const parsedColumns = columns
+      ? String(columns).split(',').map(column => column.trim()).filter(Boolean)
+      : undefined;
+
+    const normalizedNamespace = normalizeNamespace(namespace);
+    const fileName = `${indexName}-${normalizedNamespace || 'default'}-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+
+    console.log(`📤 Export request for ${indexName}:${(normalizedNamespace || '(no namespace)')} as ${exportFormat}`);
+
+    res.setHeader('Content-Type', CONTENT_TYPES[exportFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/[^\w.-]/g, '_')}"`);
+
+    await exportService.exportDocuments(indexName, exportFormat, res, {
+      namespace: normalizedNamespace,
+      filter: parsedFilter,
+      columns: parsedColumns,
+      includeValues: includeValues === 'true',
+      listSeparator: listSeparator as string | undefined
+    });
+
+  } catch (error: any) {
+    console.error('Export failed:', error);
+
+    if (res.headersSent) {
+      // Mid-stream failure: the client gets a truncated file, cutting the connection makes that obvious
+      res.destroy(error);
+      return;
+    }
+
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Export failed before a single row was written'
+    });
+  }
+};
@@ -0,0 +1,70 @@
+// Import controller - bulk upload of JSONL/CSV files into a namespace
+
+import { Request, Response } from 'express';
+import importService, { IMPORT_FORMATS, ImportFormat } from '../services/importService';
+
+// Helper function to normalize namespace ("default" string or empty -> empty string)
+const normalizeNamespace = (namespace: any): string => {
+  if (!namespace || namespace === 'default') return '';
+  return namespace as string;
+};
+
+// Upload bodies arrive as raw text - no multipart, just POST the file contents.
+// Nothing parses them up front: the service reads the request stream line by line.
+const UPLOAD_TYPES = ['text/*', 'application/x-ndjson', 'application/jsonl', 'application/octet-stream'];
+
+// Fall back to the Content-Type when ?format= is missing
+const detectFormat = (format: unknown, contentType?: string): string => {
+  if (format) return String(format).toLowerCase();
+  if (contentType?.includes('csv')) return 'csv';
+  return 'jsonl';
+};
+
+export const importRecords = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, format, dryRun } = req.query;
+    const importFormat = detectFormat(format, req.headers['content-type']) as ImportFormat;
+
+    if (!IMPORT_FORMATS.includes(importFormat)) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported format',
+        message: `Import format must be one of: ${IMPORT_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    if (!req.is(UPLOAD_TYPES)) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing file contents',
+        message: 'Send the file as the request body with Content-Type text/csv or application/x-ndjson'
+      });
+      return;
+    }
+
+    console.log(`📥 Import request for ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')} (${importFormat}${dryRun === 'true' ? ', dry run' : ''})`);
+
+    const report = await importService.importRecords(indexName, req, importFormat, {
+      namespace: normalizeNamespace(namespace),
+      dryRun: dryRun === 'true'
+    });
+
+    res.json({
+      success: report.failedRows === 0,
+      data: report,
+      message: report.dryRun
+        ? `Dry run: ${report.validRows} of ${report.totalRows} rows are valid. Nothing was written.`
+        : `Imported ${report.upsertedRows} of ${report.totalRows} rows with ${report.failedRows} failures`
+    });
+
+  } catch (error: any) {
+    console.error('Import failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Import failed. No partial report available, check the server logs.'
+    });
+  }
+};
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import pineconeService from '../services/pineconeService';
+import snapshotService from '../services/snapshotService';
+import validationRuleService from '../services/validationRuleService';
+import { MetadataFilterEngine } from '../utils/metadataFilter';
 
 export class IndexController {
   async listIndexes(_req: Request, res: Response) {
@@ -18,6 +21,106 @@ export class IndexController {
     }
   }
 
+  async createIndex(req: Request, res: Response) {
+    try {
+      const {
+        name, dimension, metric, type, cloud, region, environment,
+        podType, pods, replicas, shards, deletionProtection
+      } = req.body || {};
+
+      const toNumber = (value: any) => value === undefined || value === '' ? undefined : Number(value);
+
+      const index = await pineconeService.createIndex({
+        name,
+        dimension: Number(dimension),
+        metric,
+        type,
+        cloud,
+        region,
+        environment,
+        podType,
+        pods: toNumber(pods),
+        replicas: toNumber(replicas),
+        shards: toNumber(shards),
+        deletionProtection: deletionProtection === true || deletionProtection === 'true'
+      });
+
+      res.status(201).json({
+        success: true,
+        data: index,
+        message: `Index ${name} is ${index.status?.state || 'on its way'}. Go get a coffee.`
+      });
+    } catch (error: any) {
+      res.status(error.status || 500).json({
+        success: false,
+        error: error.message || 'Failed to create index'
+      });
+    }
+  }
+
+  async describeIndex(req: Request, res: Response) {
+    try {
+      const { indexName } = req.params;
+      const index = await pineconeService.describeIndex(indexName);
+      res.json({
+        success: true,
+        data: index,
+        message: `${indexName} is ${index.status?.state}.`
+      });
+    } catch (error: any) {
+      res.status(error.status || 500).json({
+        success: false,
+        error: error.message || 'Failed to describe index'
+      });
+    }
+  }
+
+  async configureIndex(req: Request, res: Response) {
+    try {
+      const { indexName } = req.params;
+      const { replicas, podType, deletionProtection } = req.body || {};
+
+      const index = await pineconeService.configureIndex(indexName, {
+        replicas: replicas === undefined ? undefined : Number(replicas),
+        podType,
+        deletionProtection: deletionProtection === undefined
+          ? undefined
+          : deletionProtection === true || deletionProtection === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: index,
+        message: `Index ${indexName} reconfigured. Changes may take a moment to roll out.`
+      });
+    } catch (error: any) {
+      res.status(error.status || 500).json({
+        success: false,
+        error: error.message || 'Failed to configure index'
+      });
+    }
+  }
+
+  async deleteIndex(req: Request, res: Response) {
+    try {
+      const { indexName } = req.params;
+      const { confirmName } = req.body || {};
+
+      await pineconeService.deleteIndex(indexName, confirmName);
+
+      res.json({
+        success: true,
+        data: { deleted: indexName },
+        message: `Index ${indexName} deleted. No take-backs.`
+      });
+    } catch (error: any) {
+      res.status(error.status || 500).json({
+        success: false,
+        error: error.message || 'Failed to delete index'
+      });
+    }
+  }
+
   async getIndexStats(req: Request, res: Response) {
     try {
       const { indexName } = req.params;
@@ -38,13 +141,33 @@ export class IndexController {
   async queryDocuments(req: Request, res: Response) {
     try {
       const { indexName } = req.params;
-      const { namespace, topK, filter } = req.query;
+      const { namespace, topK, filter, cursor, pageSize } = req.query;
+
+      // Cursor mode: one page at a time, with a nextCursor to keep walking the namespace
+      if (cursor !== undefined || pageSize !== undefined) {
+        const page = await pineconeService.listDocumentsPage(indexName, {
+          namespace: namespace as string,
+          cursor: cursor as string,
+          pageSize: pageSize ? parseInt(pageSize as string) : 100,
+          filter: MetadataFilterEngine.parse(filter)
+        });
+
+        res.json({
+          success: true,
+          data: page.documents,
+          total: page.documents.length,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null,
+          message: `Fetched a page of ${page.documents.length} documents. ${page.nextCursor ? 'There\'s more where that came from.' : 'That\'s the lot.'}`
+        });
+        return;
+      }
 
       const documents = await pineconeService.queryDocuments(indexName, {
         namespace: namespace as string,
         topK: topK ? parseInt(topK as string) : 100,
         includeMetadata: true,
-        filter: filter ? JSON.parse(filter as string) : undefined
+        filter: MetadataFilterEngine.parse(filter)
       });
 
       res.json({
@@ -54,13 +177,38 @@ export class IndexController {
         message: `Found ${documents.length} documents. Some might even be useful.`
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
         error: error.message || 'Failed to query documents'
       });
     }
   }
 
+  async findSimilarDocuments(req: Request, res: Response) {
+    try {
+      const { indexName, documentId } = req.params;
+      const { namespace, topK, filter } = req.query;
+
+      const result = await pineconeService.findSimilarDocuments(indexName, documentId, {
+        namespace: namespace as string,
+        topK: topK ? parseInt(topK as string) : 10,
+        filter: MetadataFilterEngine.parse(filter)
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        total: result.matches.length,
+        message: `Found ${result.matches.length} documents similar to ${documentId}. Explains a lot, probably.`
+      });
+    } catch (error: any) {
+      res.status(error.status || 500).json({
+        success: false,
+        error: error.message || 'Failed to find similar documents'
+      });
+    }
+  }
+
   async deleteDocument(req: Request, res: Response) {
     try {
       const { indexName, documentId } = req.params;
@@ -88,7 +236,7 @@ export class IndexController {
   async deleteMany(req: Request, res: Response) {
     try {
       const { indexName } = req.params;
-      const { ids, namespace } = req.body;
+      const { ids, namespace, snapshot } = req.body;
 
       if (!ids || !Array.isArray(ids)) {
         res.status(400).json({
@@ -98,11 +246,16 @@ export class IndexController {
         return;
       }
 
+      // Optional safety net: snapshot the doomed records first, and don't delete if that fails
+      const snapshotManifest = snapshot
+        ? await snapshotService.createSnapshot(indexName, { namespace, ids, reason: 'delete-many' })
+        : undefined;
+
       const result = await pineconeService.deleteMany(indexName, ids, namespace);
 
       res.json({
         success: true,
-        data: result,
+        data: { ...result, snapshotId: snapshotManifest?.snapshotId },
         message: `Deleted ${ids.length} documents. Mass destruction achieved.`
       });
     } catch (error: any) {
@@ -116,7 +269,7 @@ export class IndexController {
   async updateMetadata(req: Request, res: Response) {
     try {
       const { indexName, documentId } = req.params;
-      const { metadata, namespace } = req.body;
+      const { metadata, namespace, enforceRules } = req.body;
 
       if (!metadata) {
         res.status(400).json({
@@ -126,6 +279,14 @@ export class IndexController {
         return;
       }
 
+      // update() merges, so the rules have to see the merged result, not just the patch
+      if (enforceRules === true) {
+        const [existing] = await pineconeService.fetchDocuments(indexName, [documentId], { namespace });
+        if (existing) {
+          await validationRuleService.assertValid(indexName, namespace || '', { ...existing.metadata, ...metadata }, documentId);
+        }
+      }
+
       const result = await pineconeService.updateMetadata(
         indexName,
         documentId,
@@ -139,7 +300,7 @@ export class IndexController {
         message: 'Metadata updated. It\'s slightly less wrong now.'
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
         error: error.message || 'Failed to update metadata'
       });
@@ -149,19 +310,31 @@ export class IndexController {
   async findDuplicates(req: Request, res: Response) {
     try {
       const { indexName } = req.params;
-      const { namespace, threshold } = req.query;
+      const { namespace, threshold, maxDocuments } = req.query;
 
-      const duplicates = await pineconeService.findDuplicates(
+      // This endpoint only finds identical metadata - a threshold here used to be silently ignored
+      if (threshold !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'threshold is not supported here',
+          message: `This endpoint finds exact metadata duplicates only. For similarity thresholds use /api/indexes/${indexName}/duplicates/analyze?similarity=vector&threshold=${threshold}`
+        });
+        return;
+      }
+
+      const result = await pineconeService.findDuplicates(
         indexName,
-        threshold ? parseFloat(threshold as string) : 0.99,
-        namespace as string
+        namespace as string,
+        maxDocuments ? parseInt(maxDocuments as string) : undefined
       );
 
       res.json({
         success: true,
-        data: duplicates,
-        total: duplicates.length,
-        message: `Found ${duplicates.length} duplicate groups. Time for spring cleaning!`
+        data: result.duplicates,
+        total: result.duplicates.length,
+        scannedDocuments: result.scannedDocuments,
+        totalDocuments: result.totalDocuments,
+        message: `Found ${result.duplicates.length} duplicate groups after scanning ${result.scannedDocuments} of ${result.totalDocuments} documents. Time for spring cleaning!`
       });
     } catch (error: any) {
       res.status(500).json({
@@ -4,6 +4,11 @@
 import { Request, Response } from 'express';
 import metadataAnalyzer from '../services/metadataAnalyzer';
 import pineconeService from '../services/pineconeService';
+import metadataBulkService from '../services/metadataBulkService';
+import canonicalizationService from '../services/canonicalizationService';
+import profileHistoryService from '../services/profileHistoryService';
+import schemaService, { SCHEMA_FORMATS, SchemaFormat } from '../services/schemaService';
+import { MetadataFilterEngine } from '../utils/metadataFilter';
 
 // Helper function to normalize namespace ("default" string or empty -> empty string)
 const normalizeNamespace = (namespace: any): string => {
@@ -14,26 +19,37 @@ const normalizeNamespace = (namespace: any): string => {
 export const analyzeMetadata = async (req: Request, res: Response) => {
   try {
     const { indexName } = req.params;
-    const { namespace, maxDocuments } = req.query;
+    const { namespace, maxDocuments, save } = req.query;
     const normalizedNamespace = normalizeNamespace(namespace);
 
     console.log(`📊 Metadata analysis request for ${indexName}:${normalizedNamespace || '(no namespace)'}`);
 
+    // maxDocuments=all profiles the entire namespace instead of a sample
     const profile = await metadataAnalyzer.analyzeNamespaceMetadata(
       indexName,
       normalizedNamespace,
-      parseInt(maxDocuments as string) || 100
+      maxDocuments === 'all' ? 0 : parseInt(maxDocuments as string) || 100
     );
 
+    // Keep the profile for drift comparisons; losing history shouldn't cost the caller their analysis
+    let profileId: string | undefined;
+    if (save !== 'false') {
+      try {
+        profileId = (await profileHistoryService.saveProfile(indexName, normalizedNamespace, profile)).profileId;
+      } catch (error: any) {
+        console.warn(`⚠️ Could not save profile history: ${error.message}`);
+      }
+    }
+
     res.json({
       success: true,
-      data: profile,
-      message: `Analyzed ${profile.analysisMetrics.totalUniqueKeys} metadata keys across ${profile.analyzedDocuments} documents`
+      data: { ...profile, profileId },
+      message: `Analyzed ${profile.analysisMetrics.totalUniqueKeys} metadata keys across ${profile.analyzedDocuments} of ${profile.totalDocuments} documents`
     });
 
   } catch (error: any) {
     console.error('Metadata analysis failed:', error);
-    res.status(500).json({
+    res.status(error.status || 500).json({
       success: false,
       error: error.message,
       message: 'Metadata analysis failed. Jean-Claude is investigating...'
@@ -137,14 +153,15 @@ export const getSampleValues = async (req: Request, res: Response) => {
 export const deleteDocumentsWithKey = async (req: Request, res: Response) => {
   try {
     const { indexName, keyName } = req.params;
-    const { namespace } = req.query;
+    const { namespace, snapshot } = req.query;
 
     console.log(`🗑️ Deleting all documents with metadata key "${keyName}"`);
 
     const result = await metadataAnalyzer.deleteDocumentsWithKey(
       indexName,
+      normalizeNamespace(namespace),
       keyName,
-      normalizeNamespace(namespace)
+      { snapshot: snapshot === 'true' }
     );
 
     res.json({
@@ -234,4 +251,300 @@ export const getMetadataKeyStats = async (req: Request, res: Response) => {
     });
     return;
   }
-};
\ No newline at end of file
+};
+
+export const renameMetadataKey = async (req: Request, res: Response) => {
+  try {
+    const { indexName, keyName } = req.params;
+    const { namespace, newKey, onCollision, jobId, maxBatches, enforceRules } = req.body || {};
+
+    const job = await metadataBulkService.renameKey(indexName, keyName, newKey, {
+      namespace: normalizeNamespace(namespace),
+      onCollision,
+      jobId,
+      maxBatches: maxBatches ? parseInt(maxBatches) : undefined,
+      enforceRules: enforceRules === true
+    });
+
+    // A collision under onCollision="fail" is a conflict, not a server error; the job stays resumable
+    res.status(job.status === 'failed' ? 409 : 200).json({
+      success: job.status !== 'failed',
+      data: job,
+      message: job.status === 'completed'
+        ? `Renamed "${keyName}" to "${job.params.newKey}" on ${job.touched} documents`
+        : `Rename ${job.status} after ${job.touched} documents. Resume with jobId ${job.jobId}.`
+    });
+
+  } catch (error: any) {
+    console.error('Metadata key rename failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Rename failed. Jean-Claude suggests resuming with the jobId, progress was saved per batch.'
+    });
+  }
+};
+
+export const getMetadataJob = async (req: Request, res: Response) => {
+  try {
+    const { indexName, jobId } = req.params;
+    const job = await metadataBulkService.getJob(indexName, jobId);
+
+    res.json({
+      success: true,
+      data: job,
+      message: `Job ${jobId} is ${job.status}`
+    });
+
+  } catch (error: any) {
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to get metadata job'
+    });
+  }
+};
+
+export const bulkUpdateMetadata = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, filter, operations, preview, previewLimit, jobId, maxBatches, enforceRules } = req.body || {};
+    const normalizedNamespace = normalizeNamespace(namespace);
+
+    // Preview first: before/after for the first N matches, nothing written
+    if (preview === true || preview === 'true') {
+      const result = await metadataBulkService.previewUpdate(indexName, MetadataFilterEngine.parse(filter), operations, {
+        namespace: normalizedNamespace,
+        limit: previewLimit ? parseInt(previewLimit) : undefined,
+        enforceRules: enforceRules === true
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Previewed ${result.previewed} matching documents. Nothing was written.`
+      });
+      return;
+    }
+
+    // A whole-namespace rewrite should be a decision, not an accident of a missing field
+    if (!jobId && filter === undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'filter is required. Pass {} to update every document in the namespace.'
+      });
+      return;
+    }
+
+    const job = await metadataBulkService.updateByFilter(indexName, MetadataFilterEngine.parse(filter), operations, {
+      namespace: normalizedNamespace,
+      jobId,
+      maxBatches: maxBatches ? parseInt(maxBatches) : undefined,
+      enforceRules: enforceRules === true
+    });
+
+    res.json({
+      success: true,
+      data: job,
+      message: job.status === 'completed'
+        ? `Updated ${job.touched} of ${job.matched} matching documents (${job.unchanged} already fine, ${job.failed} failed)`
+        : `Bulk update ${job.status} after ${job.touched} documents. Resume with jobId ${job.jobId}.`
+    });
+
+  } catch (error: any) {
+    console.error('Bulk metadata update failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Bulk update failed. Jean-Claude suggests resuming with the jobId, progress was saved per batch.'
+    });
+  }
+};
+
+export const suggestCanonicalValues = async (req: Request, res: Response) => {
+  try {
+    const { indexName, keyName } = req.params;
+    const { namespace, maxDocuments, maxEditDistance, minSimilarity } = req.query;
+
+    const suggestions = await canonicalizationService.suggestCanonicalValues(indexName, normalizeNamespace(namespace), keyName, {
+      maxDocuments: maxDocuments === 'all' ? 0 : maxDocuments ? parseInt(maxDocuments as string) : undefined,
+      maxEditDistance: maxEditDistance ? parseInt(maxEditDistance as string) : undefined,
+      minSimilarity: minSimilarity ? parseFloat(minSimilarity as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: suggestions,
+      message: `Found ${suggestions.clusters.length} clusters of spelling variants for "${keyName}"${suggestions.isCategory ? '' : ' (this key does not look like a category, review carefully)'}`
+    });
+
+  } catch (error: any) {
+    console.error('Canonicalization analysis failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to analyze values for canonicalization'
+    });
+  }
+};
+
+export const applyCanonicalMapping = async (req: Request, res: Response) => {
+  try {
+    const { indexName, keyName } = req.params;
+    const { namespace, mapping, jobId, maxBatches, enforceRules } = req.body || {};
+
+    const job = await canonicalizationService.applyMapping(indexName, keyName, mapping, {
+      namespace: normalizeNamespace(namespace),
+      jobId,
+      maxBatches: maxBatches ? parseInt(maxBatches) : undefined,
+      enforceRules: enforceRules === true
+    });
+
+    res.json({
+      success: true,
+      data: job,
+      message: job.status === 'completed'
+        ? `Canonicalized "${keyName}" on ${job.touched} documents`
+        : `Canonicalization ${job.status} after ${job.touched} documents. Resume with jobId ${job.jobId}.`
+    });
+
+  } catch (error: any) {
+    console.error('Canonical mapping failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to apply canonical mapping'
+    });
+  }
+};
+
+export const exportMetadataSchema = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, format = 'json-schema', requiredThreshold, maxDocuments, enums, formats, download } = req.query;
+
+    if (!SCHEMA_FORMATS.includes(format as SchemaFormat)) {
+      res.status(400).json({
+        success: false,
+        error: `Unsupported schema format "${format}". Use one of: ${SCHEMA_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    const schema = await schemaService.inferSchema(indexName, normalizeNamespace(namespace), {
+      maxDocuments: maxDocuments === 'all' ? 0 : maxDocuments ? parseInt(maxDocuments as string) : undefined,
+      requiredThreshold: requiredThreshold !== undefined ? parseFloat(requiredThreshold as string) : undefined,
+      includeEnums: enums === 'true',
+      includeFormats: formats !== 'false'
+    });
+
+    const content = format === 'zod'
+      ? schemaService.toZod(schema)
+      : JSON.stringify(schemaService.toJsonSchema(schema), null, 2);
+
+    // download=true hands back the bare file, ready to drop into the ingestion repo
+    if (download === 'true') {
+      const fileName = `${indexName}-${normalizeNamespace(namespace) || 'default'}-metadata${format === 'zod' ? '.schema.ts' : '.schema.json'}`;
+      res.setHeader('Content-Type', format === 'zod' ? 'text/plain; charset=utf-8' : 'application/schema+json');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(content);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { format, schema, content },
+      message: `Inferred ${schema.keys.length} keys (${schema.keys.filter(key => key.required).length} required) from ${schema.analyzedDocuments} documents`
+    });
+
+  } catch (error: any) {
+    console.error('Schema export failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to infer metadata schema'
+    });
+  }
+};
+
+export const listMetadataProfiles = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, limit } = req.query;
+
+    const profiles = await profileHistoryService.listProfiles(
+      indexName,
+      normalizeNamespace(namespace),
+      limit ? parseInt(limit as string) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: profiles,
+      message: `${profiles.length} saved profiles`
+    });
+
+  } catch (error: any) {
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to list metadata profiles'
+    });
+  }
+};
+
+export const getMetadataProfile = async (req: Request, res: Response) => {
+  try {
+    const { indexName, profileId } = req.params;
+    const entry = await profileHistoryService.getProfile(indexName, profileId);
+
+    res.json({
+      success: true,
+      data: entry,
+      message: `Profile from ${entry.generatedAt}`
+    });
+
+  } catch (error: any) {
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to load metadata profile'
+    });
+  }
+};
+
+export const compareMetadataProfiles = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, base, target, presenceThreshold, qualityThreshold } = req.query;
+
+    const drift = await profileHistoryService.compareProfiles(
+      indexName,
+      normalizeNamespace(namespace),
+      base as string | undefined,
+      target as string | undefined,
+      {
+        presenceThreshold: presenceThreshold !== undefined ? parseFloat(presenceThreshold as string) : undefined,
+        qualityThreshold: qualityThreshold !== undefined ? parseFloat(qualityThreshold as string) : undefined
+      }
+    );
+
+    const changes = drift.keysAdded.length + drift.keysRemoved.length + drift.presenceChanges.length + drift.typeChanges.length;
+
+    res.json({
+      success: true,
+      data: drift,
+      message: drift.hasDrift
+        ? `Drift detected: ${changes} key changes, quality ${drift.qualityChanges.overall.delta >= 0 ? '+' : ''}${drift.qualityChanges.overall.delta} points`
+        : 'No drift. Your ingestion pipeline is behaving itself.'
+    });
+
+  } catch (error: any) {
+    console.error('Profile comparison failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to compare metadata profiles'
+    });
+  }
+};
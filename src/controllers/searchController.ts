@@ -0,0 +1,41 @@
+// Search controller - free-text semantic search endpoints
+
+import { Request, Response } from 'express';
+import searchService from '../services/searchService';
+import { MetadataFilterEngine } from '../utils/metadataFilter';
+
+// Helper function to normalize namespace ("default" string or empty -> empty string)
+const normalizeNamespace = (namespace: any): string => {
+  if (!namespace || namespace === 'default') return '';
+  return namespace as string;
+};
+
+export const searchByText = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { text, namespace, topK = 10, filter } = req.body || {};
+
+    console.log(`🔎 Text search request for ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')}`);
+
+    const result = await searchService.searchByText(indexName, text, {
+      namespace: normalizeNamespace(namespace),
+      topK: parseInt(topK as string),
+      filter: MetadataFilterEngine.parse(filter)
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      total: result.matches.length,
+      message: `Found ${result.matches.length} matches for "${result.query}"`
+    });
+
+  } catch (error: any) {
+    console.error('Text search failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Search failed. Check the embedding provider configuration.'
+    });
+  }
+};
@@ -0,0 +1,135 @@
+// Snapshot controller - backup and restore endpoints for namespaces
+
+import { Request, Response } from 'express';
+import snapshotService from '../services/snapshotService';
+import { MetadataFilterEngine } from '../utils/metadataFilter';
+
+// Helper function to normalize namespace ("default" string or empty -> empty string)
+const normalizeNamespace = (namespace: any): string => {
+  if (!namespace || namespace === 'default') return '';
+  return namespace as string;
+};
+
+export const createSnapshot = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, filter, ids, reason } = req.body || {};
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      res.status(400).json({
+        success: false,
+        error: 'ids must be an array',
+        message: 'Pass an array of document IDs, or leave ids out to snapshot the whole namespace'
+      });
+      return;
+    }
+
+    console.log(`📸 Snapshot request for ${indexName}:${(normalizeNamespace(namespace) || '(no namespace)')}`);
+
+    const manifest = await snapshotService.createSnapshot(indexName, {
+      namespace: normalizeNamespace(namespace),
+      filter: MetadataFilterEngine.parse(filter),
+      ids,
+      reason
+    });
+
+    res.json({
+      success: true,
+      data: manifest,
+      message: `Snapshot ${manifest.snapshotId} saved with ${manifest.recordCount} records`
+    });
+
+  } catch (error: any) {
+    console.error('Snapshot failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Snapshot failed. Maybe hold off on deleting anything for now.'
+    });
+  }
+};
+
+export const listSnapshots = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace } = req.query;
+
+    const snapshots = await snapshotService.listSnapshots(
+      indexName,
+      namespace !== undefined ? normalizeNamespace(namespace) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: snapshots,
+      total: snapshots.length,
+      message: `Found ${snapshots.length} snapshots for ${indexName}`
+    });
+
+  } catch (error: any) {
+    console.error('Listing snapshots failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to list snapshots'
+    });
+  }
+};
+
+export const getSnapshot = async (req: Request, res: Response) => {
+  try {
+    const { indexName, snapshotId } = req.params;
+    const manifest = await snapshotService.getSnapshot(indexName, snapshotId);
+
+    res.json({
+      success: true,
+      data: manifest,
+      message: `Snapshot ${snapshotId}: ${manifest.recordCount} records from ${manifest.createdAt}`
+    });
+
+  } catch (error: any) {
+    console.error('Snapshot lookup failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to get snapshot'
+    });
+  }
+};
+
+export const restoreSnapshot = async (req: Request, res: Response) => {
+  try {
+    const { indexName, snapshotId } = req.params;
+    const { targetNamespace, ids } = req.body || {};
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      res.status(400).json({
+        success: false,
+        error: 'ids must be an array',
+        message: 'Pass an array of document IDs to restore a subset, or leave ids out to restore everything'
+      });
+      return;
+    }
+
+    console.log(`♻️ Restore request for snapshot ${snapshotId} of ${indexName}`);
+
+    const result = await snapshotService.restoreSnapshot(indexName, snapshotId, {
+      targetNamespace: targetNamespace !== undefined ? normalizeNamespace(targetNamespace) : undefined,
+      ids
+    });
+
+    res.json({
+      success: result.failedRecords === 0,
+      data: result,
+      message: `Restored ${result.restoredRecords} records into ${result.targetNamespace || '(no namespace)'}`
+    });
+
+  } catch (error: any) {
+    console.error('Snapshot restore failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Restore failed. The snapshot file is untouched, try again.'
+    });
+  }
+};
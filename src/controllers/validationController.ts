@@ -0,0 +1,81 @@
+// Validation controller - metadata rule registration and namespace violation reports
+
+import { Request, Response } from 'express';
+import validationRuleService from '../services/validationRuleService';
+
+// Helper function to normalize namespace ("default" string or empty -> empty string)
+const normalizeNamespace = (namespace: any): string => {
+  if (!namespace || namespace === 'default') return '';
+  return namespace as string;
+};
+
+export const getRules = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const ruleSet = await validationRuleService.getRules(indexName, normalizeNamespace(req.query.namespace));
+
+    res.json({
+      success: true,
+      data: ruleSet,
+      message: `${ruleSet.rules.length} validation rules registered`
+    });
+
+  } catch (error: any) {
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to load validation rules'
+    });
+  }
+};
+
+export const setRules = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, rules } = req.body || {};
+
+    const ruleSet = await validationRuleService.setRules(indexName, normalizeNamespace(namespace), rules);
+
+    res.json({
+      success: true,
+      data: ruleSet,
+      message: ruleSet.rules.length > 0
+        ? `Saved ${ruleSet.rules.length} validation rules. The metadata police are on duty.`
+        : 'Validation rules cleared. Anarchy restored.'
+    });
+
+  } catch (error: any) {
+    console.error('Saving validation rules failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to save validation rules'
+    });
+  }
+};
+
+export const getViolationReport = async (req: Request, res: Response) => {
+  try {
+    const { indexName } = req.params;
+    const { namespace, maxDocuments, maxIdsPerRule } = req.query;
+
+    const report = await validationRuleService.runReport(indexName, normalizeNamespace(namespace), {
+      maxDocuments: maxDocuments ? parseInt(maxDocuments as string) : undefined,
+      maxIdsPerRule: maxIdsPerRule ? parseInt(maxIdsPerRule as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: report,
+      message: `${report.violatingDocuments} of ${report.scannedDocuments} documents break at least one of ${report.rulesChecked} rules`
+    });
+
+  } catch (error: any) {
+    console.error('Validation report failed:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      message: 'Failed to run validation report'
+    });
+  }
+};
@@ -2,6 +2,12 @@ import { Router } from 'express';
 import indexController from '../controllers/indexController';
 import * as metadataController from '../controllers/metadataController';
 import * as deduplicationController from '../controllers/deduplicationController';
+import * as searchController from '../controllers/searchController';
+import * as exportController from '../controllers/exportController';
+import * as importController from '../controllers/importController';
+import * as snapshotController from '../controllers/snapshotController';
+import * as copyController from '../controllers/copyController';
+import * as validationController from '../controllers/validationController';
 
 const router = Router();
 
@@ -45,7 +51,32 @@ router.get('/user', (req, res) => {
 // Index operations
 router.get('/indexes', indexController.listIndexes);
 router.get('/indexes/:indexName/stats', indexController.getIndexStats);
+
+// Index lifecycle - create, describe (poll status.state), configure, delete with typed-name confirmation
+router.post('/indexes', indexController.createIndex);
+router.get('/indexes/:indexName', indexController.describeIndex);
+router.patch('/indexes/:indexName', indexController.configureIndex);
+router.delete('/indexes/:indexName', indexController.deleteIndex);
 router.get('/indexes/:indexName/documents', indexController.queryDocuments);
+router.get('/indexes/:indexName/documents/:documentId/similar', indexController.findSimilarDocuments);
+
+// Semantic search - embeds the text, then queries the index
+router.post('/indexes/:indexName/search', searchController.searchByText);
+
+// Export - streams CSV/JSONL/XLSX as the namespace is scanned
+router.get('/indexes/:indexName/export', exportController.exportDocuments);
+
+// Import - raw JSONL/CSV upload, streamed, validated and upserted in size-limited batches
+router.post('/indexes/:indexName/import', importController.importRecords);
+
+// Snapshots - backup before you break things
+router.post('/indexes/:indexName/snapshots', snapshotController.createSnapshot);
+router.get('/indexes/:indexName/snapshots', snapshotController.listSnapshots);
+router.get('/indexes/:indexName/snapshots/:snapshotId', snapshotController.getSnapshot);
+router.post('/indexes/:indexName/snapshots/:snapshotId/restore', snapshotController.restoreSnapshot);
+
+// Copy/migrate - namespace to namespace, index to index
+router.post('/indexes/:indexName/copy', copyController.copyNamespace);
 
 // Document operations
 router.delete('/indexes/:indexName/documents/:documentId', indexController.deleteDocument);
@@ -57,14 +88,40 @@ router.get('/indexes/:indexName/duplicates', indexController.findDuplicates);
 
 // Metadata profiling operations - Jean-Claude's enterprise analytics
 router.get('/indexes/:indexName/metadata-profile', metadataController.analyzeMetadata);
+router.get('/indexes/:indexName/metadata-schema', metadataController.exportMetadataSchema);
+router.get('/indexes/:indexName/metadata-profiles', metadataController.listMetadataProfiles);
+router.get('/indexes/:indexName/metadata-profiles/:profileId', metadataController.getMetadataProfile);
+router.get('/indexes/:indexName/metadata-drift', metadataController.compareMetadataProfiles);
 router.get('/indexes/:indexName/metadata/:keyName/samples', metadataController.getSampleValues);
 router.get('/indexes/:indexName/metadata/:keyName/stats', metadataController.getMetadataKeyStats);
 router.delete('/indexes/:indexName/metadata/:keyName/documents', metadataController.deleteDocumentsWithKey);
 
+// Bulk metadata rewrites - resumable jobs, progress saved after every batch
+router.post('/indexes/:indexName/metadata/bulk-update', metadataController.bulkUpdateMetadata);
+router.post('/indexes/:indexName/metadata/:keyName/rename', metadataController.renameMetadataKey);
+router.get('/indexes/:indexName/metadata-jobs/:jobId', metadataController.getMetadataJob);
+
+// Metadata validation rules - register per namespace, report violations
+router.get('/indexes/:indexName/validation-rules', validationController.getRules);
+router.put('/indexes/:indexName/validation-rules', validationController.setRules);
+router.get('/indexes/:indexName/validation-report', validationController.getViolationReport);
+
+// Category canonicalization - suggest variant clusters, then apply the approved mapping
+router.get('/indexes/:indexName/metadata/:keyName/canonicalization', metadataController.suggestCanonicalValues);
+router.post('/indexes/:indexName/metadata/:keyName/canonicalize', metadataController.applyCanonicalMapping);
+
 // Deduplication operations - Jean-Claude's duplicate elimination system
 router.get('/indexes/:indexName/duplicates/analyze', deduplicationController.analyzeForDuplicates);
 router.get('/indexes/:indexName/duplicates/preview', deduplicationController.previewDuplicates);
 router.post('/indexes/:indexName/duplicates/delete', deduplicationController.deleteDuplicates);
 router.get('/indexes/:indexName/duplicates/report', deduplicationController.getDuplicationReport);
+router.post('/indexes/:indexName/duplicates/verdicts', deduplicationController.recordDuplicateVerdicts);
+router.get('/indexes/:indexName/duplicates/verdicts', deduplicationController.listDuplicateVerdicts);
+router.get('/indexes/:indexName/duplicates/precision', deduplicationController.getDuplicatePrecision);
+
+// Cross-location deduplication - duplicates spanning several indexes/namespaces
+router.post('/duplicates/cross-location/analyze', deduplicationController.analyzeCrossLocationDuplicates);
+router.post('/duplicates/cross-location/delete', deduplicationController.deleteCrossLocationDuplicates);
+router.get('/duplicates/cross-location/:analysisId', deduplicationController.getCrossLocationAnalysis);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,244 @@
+// Canonicalization service - finds spelling variants of category values ("Engineering", "engineering ", "Enginering")
+// and rewrites them to one canonical value, so filters stop missing half the documents
+
+import pineconeService from './pineconeService';
+import metadataBulkService, { BulkJobState, BulkRunOptions, UpdateByFilterParams } from './metadataBulkService';
+import { DataTypeAnalysis, DataTypeDetector } from '../utils/dataTypeDetector';
+import { levenshteinDistance, stringSimilarity } from '../utils/stringSimilarity';
+import { ValidationError } from '../utils/errors';
+
+export interface CanonicalizationOptions {
+  maxDocuments?: number; // 0 = whole namespace
+  maxEditDistance?: number; // Typos further apart than this are different values
+  minSimilarity?: number; // ...and so are short values that differ by a large share of their length
+}
+
+export interface ValueVariant {
+  value: string;
+  count: number;
+}
+
+export interface ValueCluster {
+  canonical: string;
+  variants: ValueVariant[]; // Most frequent first, canonical included
+  totalCount: number;
+  reasons: Array<'case' | 'whitespace' | 'edit-distance'>;
+}
+
+export interface CanonicalizationSuggestions {
+  indexName: string;
+  namespace: string;
+  keyName: string;
+  analyzedDocuments: number;
+  distinctValues: number;
+  dataTypeAnalysis: DataTypeAnalysis;
+  isCategory: boolean; // Suggestions still come back for other types, but treat them with suspicion
+  clusters: ValueCluster[];
+  mapping: Record<string, string>; // Variant -> canonical, ready to approve (or edit) and apply
+}
+
+// Clustering is all-pairs over distinct values; past this it isn't a category field anyway
+const MAX_DISTINCT_VALUES = 2000;
+
+export class CanonicalizationService {
+
+  /**
+   * Count the values of a key, cluster near-identical ones and propose a canonical value per cluster
+   */
+  async suggestCanonicalValues(
+    indexName: string,
+    namespace: string,
+    keyName: string,
+    options: CanonicalizationOptions = {}
+  ): Promise<CanonicalizationSuggestions> {
+    const maxDocuments = options.maxDocuments ?? 1000;
+    const maxEditDistance = options.maxEditDistance ?? 2;
+    const minSimilarity = options.minSimilarity ?? 80;
+    const counts = new Map<string, number>();
+    const allValues: unknown[] = [];
+    let analyzedDocuments = 0;
+
+    console.log(`🏷️ Looking for spelling variants of "${keyName}" in ${indexName}:${(namespace || '(no namespace)')}`);
+
+    scan:
+    for await (const batch of pineconeService.scanNamespace(indexName, {
+      namespace,
+      filter: { [keyName]: { $exists: true } }
+    })) {
+      for (const record of batch.records) {
+        const value = record.metadata[keyName];
+        allValues.push(value);
+
+        // List values count once per element - "tags" style fields have variants too
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (typeof item === 'string') counts.set(item, (counts.get(item) || 0) + 1);
+        }
+
+        analyzedDocuments++;
+        if (maxDocuments > 0 && analyzedDocuments >= maxDocuments) break scan;
+      }
+    }
+
+    if (counts.size > MAX_DISTINCT_VALUES) {
+      throw new ValidationError(
+        `"${keyName}" has ${counts.size} distinct values. That's not a category, that's free text - canonicalization works up to ${MAX_DISTINCT_VALUES}.`
+      );
+    }
+
+    const dataTypeAnalysis = DataTypeDetector.analyzeValues(allValues);
+    const clusters = this.clusterValues(counts, maxEditDistance, minSimilarity);
+
+    const mapping: Record<string, string> = {};
+    for (const cluster of clusters) {
+      for (const variant of cluster.variants) {
+        if (variant.value !== cluster.canonical) mapping[variant.value] = cluster.canonical;
+      }
+    }
+
+    console.log(`Found ${clusters.length} variant clusters among ${counts.size} distinct values`);
+
+    return {
+      indexName,
+      namespace,
+      keyName,
+      analyzedDocuments,
+      distinctValues: counts.size,
+      dataTypeAnalysis,
+      isCategory: dataTypeAnalysis.primaryType === 'business' && dataTypeAnalysis.subType === 'category',
+      clusters,
+      mapping
+    };
+  }
+
+  /**
+   * Rewrite every variant in the approved mapping to its canonical value, as a resumable bulk job
+   */
+  async applyMapping(
+    indexName: string,
+    keyName: string,
+    mapping: unknown,
+    options: BulkRunOptions = {}
+  ): Promise<BulkJobState<UpdateByFilterParams>> {
+    if (options.jobId) {
+      return metadataBulkService.updateByFilter(indexName, undefined, undefined, options);
+    }
+
+    const approved = this.validateMapping(mapping);
+
+    // Only records holding one of the variants get touched
+    return metadataBulkService.updateByFilter(
+      indexName,
+      { [keyName]: { $in: Object.keys(approved) } },
+      [{ op: 'map', key: keyName, mapping: approved }],
+      options
+    );
+  }
+
+  private validateMapping(mapping: unknown): Record<string, string> {
+    if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+      throw new ValidationError('mapping must be an object of variant -> canonical value');
+    }
+
+    const approved: Record<string, string> = {};
+    for (const [variant, canonical] of Object.entries(mapping)) {
+      if (typeof canonical !== 'string' || !canonical) {
+        throw new ValidationError(`mapping["${variant}"] must be a non-empty string`);
+      }
+      if (variant !== canonical) approved[variant] = canonical;
+    }
+
+    // a -> b and b -> c in one go would depend on record order; make people pick the final value
+    for (const canonical of Object.values(approved)) {
+      if (canonical in approved) {
+        throw new ValidationError(`"${canonical}" is both a canonical value and a variant in the mapping. Map straight to the final value.`);
+      }
+    }
+
+    if (Object.keys(approved).length === 0) {
+      throw new ValidationError('mapping is empty. Nothing to canonicalize.');
+    }
+
+    return approved;
+  }
+
+  // Union-find over distinct values: same normalized form, or close enough by edit distance
+  private clusterValues(counts: Map<string, number>, maxEditDistance: number, minSimilarity: number): ValueCluster[] {
+    const values = Array.from(counts.keys());
+    const normalized = values.map(value => this.normalize(value));
+    const parent = values.map((_, i) => i);
+
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+
+    for (let i = 0; i < values.length; i++) {
+      for (let j = i + 1; j < values.length; j++) {
+        if (find(i) === find(j)) continue;
+
+        const a = normalized[i];
+        const b = normalized[j];
+        const close = a === b || (
+          Math.abs(a.length - b.length) <= maxEditDistance &&
+          levenshteinDistance(a, b) <= maxEditDistance &&
+          stringSimilarity(a, b) >= minSimilarity
+        );
+
+        if (close) parent[find(j)] = find(i);
+      }
+    }
+
+    const groups = new Map<number, string[]>();
+    values.forEach((value, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), value]);
+    });
+
+    return Array.from(groups.values())
+      .filter(group => group.length > 1)
+      .map(group => {
+        const variants = group
+          .map(value => ({ value, count: counts.get(value)! }))
+          .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+        return {
+          canonical: this.pickCanonical(variants),
+          variants,
+          totalCount: variants.reduce((sum, variant) => sum + variant.count, 0),
+          reasons: this.explain(group)
+        };
+      })
+      .sort((a, b) => b.totalCount - a.totalCount);
+  }
+
+  // The most common tidy spelling wins; if every variant is untidy, tidy up the most common one
+  private pickCanonical(variants: ValueVariant[]): string {
+    const tidy = variants.find(variant => variant.value === this.tidy(variant.value));
+    return tidy ? tidy.value : this.tidy(variants[0].value);
+  }
+
+  private explain(group: string[]): ValueCluster['reasons'] {
+    const reasons = new Set<ValueCluster['reasons'][number]>();
+    const tidied = new Set(group.map(value => this.tidy(value)));
+    const normalized = new Set(group.map(value => this.normalize(value)));
+
+    if (group.some(value => value !== this.tidy(value))) reasons.add('whitespace');
+    if (normalized.size < tidied.size) reasons.add('case');
+    if (normalized.size > 1) reasons.add('edit-distance');
+
+    return Array.from(reasons);
+  }
+
+  private tidy(value: string): string {
+    return value.trim().replace(/\s+/g, ' ');
+  }
+
+  private normalize(value: string): string {
+    return this.tidy(value).toLowerCase();
+  }
+}
+
+export default new CanonicalizationService();
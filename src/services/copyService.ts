@@ -0,0 +1,148 @@
+// Copy service - promote or split namespaces by copying records between indexes/namespaces
+// Staging to production without a Python notebook and a prayer
+
+import { PineconeRecord } from '@pinecone-database/pinecone';
+import pineconeService from './pineconeService';
+import { MetadataFilter } from '../utils/metadataFilter';
+import { ValidationError } from '../utils/errors';
+
+export type CopyMode = 'overwrite' | 'skip-existing';
+
+export interface CopyOptions {
+  sourceNamespace?: string;
+  targetIndex?: string; // Defaults to the source index
+  targetNamespace?: string;
+  filter?: MetadataFilter;
+  mode?: CopyMode;
+  idPrefix?: { from: string; to: string }; // IDs starting with "from" get it swapped for "to"
+}
+
+export interface CopyResult {
+  source: { indexName: string; namespace: string };
+  target: { indexName: string; namespace: string };
+  mode: CopyMode;
+  scanned: number;
+  copied: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+  processingTime: number;
+}
+
+export class CopyService {
+
+  /**
+   * Read every (matching) record from the source and upsert it into the target
+   */
+  async copyNamespace(sourceIndex: string, options: CopyOptions = {}): Promise<CopyResult> {
+    const startTime = Date.now();
+    const sourceNamespace = options.sourceNamespace || '';
+    const targetIndex = options.targetIndex || sourceIndex;
+    const targetNamespace = options.targetNamespace || '';
+    const mode = options.mode || 'overwrite';
+
+    if (!['overwrite', 'skip-existing'].includes(mode)) {
+      throw new ValidationError(`Unknown copy mode "${mode}". Use "overwrite" or "skip-existing".`);
+    }
+    if (options.idPrefix && (typeof options.idPrefix.from !== 'string' || typeof options.idPrefix.to !== 'string')) {
+      throw new ValidationError('idPrefix needs both "from" and "to" strings');
+    }
+    const sameLocation = sourceIndex === targetIndex && sourceNamespace === targetNamespace;
+    if (sameLocation && !options.idPrefix) {
+      throw new ValidationError('Source and target are the same namespace. That\'s not a copy, that\'s a very slow no-op.');
+    }
+    // In place, the scan would find its own copies again - "a" -> "ab" keeps making "abb", "abbb", ...
+    if (sameLocation && options.idPrefix) {
+      const { from, to } = options.idPrefix;
+      if (!from || to.startsWith(from) || from.startsWith(to)) {
+        throw new ValidationError(`Copying within one namespace needs prefixes that don't overlap ("${from}" -> "${to}" does)`);
+      }
+    }
+
+    await this.assertCompatible(sourceIndex, targetIndex);
+
+    console.log(`📦 Copying ${sourceIndex}:${(sourceNamespace || '(no namespace)')} -> ${targetIndex}:${(targetNamespace || '(no namespace)')} (${mode})`);
+
+    const errors: string[] = [];
+    let scanned = 0;
+    let copied = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for await (const batch of pineconeService.scanNamespace(sourceIndex, {
+      namespace: sourceNamespace,
+      filter: options.filter,
+      includeValues: true,
+      // Within one namespace only the prefixed records are copied - everything else would be upserted onto itself
+      ...(sameLocation && options.idPrefix ? { prefix: options.idPrefix.from } : {})
+    })) {
+      scanned = batch.scanned;
+      if (batch.records.length === 0) continue;
+
+      let records: PineconeRecord[] = batch.records.map(record => ({
+        id: this.rewriteId(record.id, options.idPrefix),
+        values: record.values,
+        ...(record.sparseValues ? { sparseValues: record.sparseValues } : {}),
+        metadata: record.metadata
+      }));
+
+      if (mode === 'skip-existing') {
+        const existing = await pineconeService.fetchDocuments(targetIndex, records.map(record => record.id), {
+          namespace: targetNamespace
+        });
+        const existingIds = new Set(existing.map(record => record.id));
+        skipped += existingIds.size;
+        records = records.filter(record => !existingIds.has(record.id));
+      }
+
+      if (records.length === 0) continue;
+
+      const result = await pineconeService.upsertRecords(targetIndex, records, targetNamespace);
+      copied += result.upserted;
+
+      for (const failedBatch of result.failedBatches) {
+        failed += failedBatch.ids.length;
+        errors.push(`${failedBatch.ids.length} records failed (first: ${failedBatch.ids[0]}): ${failedBatch.error}`);
+      }
+    }
+
+    const processingTime = Date.now() - startTime;
+    console.log(`Copy complete in ${processingTime}ms: ${copied} copied, ${skipped} skipped, ${failed} failed`);
+
+    return {
+      source: { indexName: sourceIndex, namespace: (sourceNamespace || '(no namespace)') },
+      target: { indexName: targetIndex, namespace: (targetNamespace || '(no namespace)') },
+      mode,
+      scanned,
+      copied,
+      skipped,
+      failed,
+      errors,
+      processingTime
+    };
+  }
+
+  // Vectors only make sense in an index with the same dimension and the same notion of distance
+  private async assertCompatible(sourceIndex: string, targetIndex: string): Promise<void> {
+    if (sourceIndex === targetIndex) return;
+
+    const [source, target] = await Promise.all([
+      pineconeService.getIndexDescription(sourceIndex),
+      pineconeService.getIndexDescription(targetIndex)
+    ]);
+
+    if (source.dimension !== target.dimension) {
+      throw new ValidationError(`Dimension mismatch: "${sourceIndex}" has ${source.dimension}, "${targetIndex}" has ${target.dimension}`);
+    }
+    if (source.metric !== target.metric) {
+      throw new ValidationError(`Metric mismatch: "${sourceIndex}" uses ${source.metric}, "${targetIndex}" uses ${target.metric}`);
+    }
+  }
+
+  private rewriteId(id: string, idPrefix?: { from: string; to: string }): string {
+    if (!idPrefix || !id.startsWith(idPrefix.from)) return id;
+    return idPrefix.to + id.slice(idPrefix.from.length);
+  }
+}
+
+export default new CopyService();
@@ -0,0 +1,105 @@
+import deduplicationService from './deduplicationService';
+import reportService, { DeduplicationReport } from './deduplicationReportService';
+
+jest.mock('./deduplicationService', () => ({
+  __esModule: true,
+  default: {
+    getAnalysis: jest.fn(),
+    selectDocumentsForDeletion: jest.fn()
+  }
+}));
+
+const mocked = deduplicationService as jest.Mocked<typeof deduplicationService>;
+
+const report = (overrides: Partial<DeduplicationReport> = {}): DeduplicationReport => ({
+  analysisId: 'dup-1',
+  indexName: 'docs',
+  namespace: 'en',
+  analyzedAt: '2024-05-01T10:00:00.000Z',
+  expiresAt: '2024-05-02T10:00:00.000Z',
+  expired: false,
+  generatedAt: '2024-05-01T12:00:00.000Z',
+  totals: {
+    totalDocuments: 10,
+    analyzedDocuments: 10,
+    duplicateGroups: 1,
+    duplicateDocuments: 1,
+    deletedGroups: 0,
+    deletedDocuments: 0,
+    pendingGroups: 1
+  },
+  groups: [{
+    groupId: 'group-1',
+    similarityScore: 97.5,
+    reason: 'Near-exact match on "title", <b>body</b>\nand more',
+    matchingFields: ['title', 'a|b'],
+    status: 'pending',
+    keptId: 'doc|1',
+    deletedIds: ['doc,"2"']
+  }],
+  errors: [],
+  ...overrides
+});
+
+describe('DeduplicationReportService.render', () => {
+  it('quotes CSV fields with commas, quotes and newlines', () => {
+    const lines = reportService.render(report(), 'csv').trim().split('\n');
+
+    expect(lines[0]).toBe('analysis_id,group_id,status,document_id,action,similarity_score,matching_fields,reason,deleted_at,snapshot_id');
+    expect(lines[1]).toBe('dup-1,group-1,pending,doc|1,keep,97.5,title; a|b,"Near-exact match on ""title"", <b>body</b>');
+    expect(lines[2]).toBe('and more",,');
+    expect(lines[3]).toContain(',"doc,""2""",delete,');
+  });
+
+  it('escapes pipes and newlines in Markdown tables', () => {
+    const markdown = reportService.render(report({ errors: ['batch 1\nfailed | retry'] }), 'markdown');
+
+    expect(markdown).toContain('| group-1 | pending | 97.5% | title, a\\|b | `doc\\|1` | `doc,"2"` |');
+    expect(markdown).toContain('- batch 1 failed \\| retry');
+  });
+
+  it('escapes HTML everywhere user data goes', () => {
+    const html = reportService.render(report({ indexName: '<script>alert(1)</script>' }), 'html');
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('Near-exact match on &quot;title&quot;, &lt;b&gt;body&lt;/b&gt;');
+    expect(html).toContain('<code>doc,&quot;2&quot;</code>');
+  });
+
+  it('says when the analysis has expired', () => {
+    expect(reportService.render(report({ expired: true }), 'markdown')).toContain('(expired, pending groups can no longer be deleted)');
+  });
+});
+
+describe('DeduplicationReportService.buildReport', () => {
+  it('reports deletions from an expired analysis', async () => {
+    mocked.getAnalysis.mockResolvedValue({
+      analysis: {
+        namespace: 'en',
+        createdAt: '2024-05-01T10:00:00.000Z',
+        expiresAt: '2024-05-02T10:00:00.000Z',
+        totalDocuments: 10,
+        analyzedDocuments: 10,
+        potentialSavings: { documentsToDelete: 2, estimatedStorageSaved: '4 KB' },
+        duplicateGroups: [
+          { id: 'group-1', similarityScore: 100, reason: 'Exact metadata match', matchingFields: ['title'] },
+          { id: 'group-2', similarityScore: 90, reason: 'High similarity', matchingFields: ['title'] }
+        ]
+      },
+      deletions: [{
+        snapshotId: 'snap-1',
+        errors: [],
+        auditTrail: [{ groupId: 'group-1', keptId: 'a', deletedIds: ['b'], timestamp: '2024-05-01T11:00:00.000Z' }]
+      }]
+    } as any);
+    mocked.selectDocumentsForDeletion.mockReturnValue({ toKeep: 'c', toDelete: ['d'] });
+
+    const result = await reportService.buildReport('docs', 'dup-1', { deletedOnly: true });
+
+    expect(mocked.getAnalysis).toHaveBeenCalledWith('docs', 'dup-1', { includeExpired: true });
+    expect(result.expired).toBe(true);
+    expect(result.totals).toMatchObject({ duplicateGroups: 2, deletedGroups: 1, deletedDocuments: 1, pendingGroups: 1 });
+    expect(result.groups).toEqual([expect.objectContaining({ groupId: 'group-1', status: 'deleted', keptId: 'a', deletedIds: ['b'], snapshotId: 'snap-1' })]);
+  });
+});
@@ -0,0 +1,256 @@
+// Deduplication reports - a stored analysis and whatever was deleted from it, for the data stewards
+// Formats: CSV (one row per document), a self-contained HTML page, and Markdown for tickets
+
+import { createArrayCsvStringifier } from 'csv-writer';
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import deduplicationService from './deduplicationService';
+
+export type ReportFormat = 'json' | 'csv' | 'html' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'html', 'markdown'];
+
+export interface ReportGroup {
+  groupId: string;
+  similarityScore: number;
+  reason: string;
+  matchingFields: string[];
+  status: 'deleted' | 'pending';
+  keptId: string;
+  deletedIds: string[]; // From the audit trail once deleted, the planned deletions before that
+  deletedAt?: string;
+  snapshotId?: string;
+  mergedMetadata?: RecordMetadata; // Survivor's metadata after a merge
+}
+
+export interface DeduplicationReport {
+  analysisId: string;
+  indexName: string;
+  namespace: string;
+  analyzedAt: string;
+  expiresAt: string;
+  expired: boolean; // Too old to delete from, but its deletion records still count
+  generatedAt: string;
+  totals: {
+    totalDocuments: number;
+    analyzedDocuments: number;
+    duplicateGroups: number;
+    duplicateDocuments: number; // Documents that would go if every group were deleted
+    deletedGroups: number;
+    deletedDocuments: number;
+    pendingGroups: number;
+  };
+  groups: ReportGroup[];
+  errors: string[];
+}
+
+export const REPORT_CONTENT_TYPES: Record<Exclude<ReportFormat, 'json'>, string> = {
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8'
+};
+
+export const REPORT_EXTENSIONS: Record<Exclude<ReportFormat, 'json'>, string> = {
+  csv: 'csv',
+  html: 'html',
+  markdown: 'md'
+};
+
+export class DeduplicationReportService {
+
+  /**
+   * Collect a stored analysis and its deletions into one report. deletedOnly narrows it down to
+   * what actually happened, for "what did we remove?" questions.
+   */
+  async buildReport(indexName: string, analysisId: string, options: { deletedOnly?: boolean } = {}): Promise<DeduplicationReport> {
+    const stored = await deduplicationService.getAnalysis(indexName, analysisId, { includeExpired: true });
+    const { analysis } = stored;
+    const deletions = stored.deletions || [];
+
+    // Latest audit entry per group wins - a group is only ever deleted once, but be tolerant
+    const audit = new Map<string, { keptId: string; deletedIds: string[]; deletedAt: string; snapshotId?: string; mergedMetadata?: RecordMetadata }>();
+    for (const deletion of deletions) {
+      for (const entry of deletion.auditTrail) {
+        audit.set(entry.groupId, {
+          keptId: entry.keptId,
+          deletedIds: entry.deletedIds,
+          deletedAt: entry.timestamp,
+          snapshotId: deletion.snapshotId,
+          mergedMetadata: entry.mergedMetadata
+        });
+      }
+    }
+
+    const groups: ReportGroup[] = analysis.duplicateGroups.map(group => {
+      const deleted = audit.get(group.id);
+      const plan = deduplicationService.selectDocumentsForDeletion(group);
+
+      return {
+        groupId: group.id,
+        similarityScore: group.similarityScore,
+        reason: group.reason,
+        matchingFields: group.matchingFields,
+        status: deleted ? 'deleted' : 'pending',
+        keptId: deleted ? deleted.keptId : plan.toKeep,
+        deletedIds: deleted ? deleted.deletedIds : plan.toDelete,
+        ...(deleted ? { deletedAt: deleted.deletedAt, snapshotId: deleted.snapshotId, mergedMetadata: deleted.mergedMetadata } : {})
+      };
+    });
+
+    const deletedGroups = groups.filter(group => group.status === 'deleted');
+
+    return {
+      analysisId,
+      indexName,
+      namespace: analysis.namespace,
+      analyzedAt: analysis.createdAt,
+      expiresAt: analysis.expiresAt,
+      expired: Date.parse(analysis.expiresAt) <= Date.now(),
+      generatedAt: new Date().toISOString(),
+      totals: {
+        totalDocuments: analysis.totalDocuments,
+        analyzedDocuments: analysis.analyzedDocuments,
+        duplicateGroups: groups.length,
+        duplicateDocuments: analysis.potentialSavings.documentsToDelete,
+        deletedGroups: deletedGroups.length,
+        deletedDocuments: deletedGroups.reduce((sum, group) => sum + group.deletedIds.length, 0),
+        pendingGroups: groups.length - deletedGroups.length
+      },
+      groups: options.deletedOnly ? deletedGroups : groups,
+      errors: deletions.flatMap(deletion => deletion.errors)
+    };
+  }
+
+  render(report: DeduplicationReport, format: Exclude<ReportFormat, 'json'>): string {
+    switch (format) {
+      case 'csv':
+        return this.toCsv(report);
+      case 'html':
+        return this.toHtml(report);
+      case 'markdown':
+        return this.toMarkdown(report);
+    }
+  }
+
+  // One row per document, so a spreadsheet filter on "action" answers most questions
+  private toCsv(report: DeduplicationReport): string {
+    const stringifier = createArrayCsvStringifier({
+      header: ['analysis_id', 'group_id', 'status', 'document_id', 'action', 'similarity_score', 'matching_fields', 'reason', 'deleted_at', 'snapshot_id']
+    });
+
+    const rows = report.groups.flatMap(group => {
+      const rowFor = (documentId: string, action: string) => [
+        report.analysisId, group.groupId, group.status, documentId, action, group.similarityScore,
+        group.matchingFields.join('; '), group.reason, group.deletedAt || '', group.snapshotId || ''
+      ];
+      return [
+        rowFor(group.keptId, group.status === 'deleted' ? (group.mergedMetadata ? 'kept-merged' : 'kept') : 'keep'),
+        ...group.deletedIds.map(id => rowFor(id, group.status === 'deleted' ? 'deleted' : 'delete'))
+      ];
+    });
+
+    return (stringifier.getHeaderString() || '') + stringifier.stringifyRecords(rows);
+  }
+
+  private toMarkdown(report: DeduplicationReport): string {
+    const cell = (text: string | number) => String(text).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const ids = (list: string[]) => list.map(id => `\`${cell(id)}\``).join(', ');
+    const { totals } = report;
+
+    const lines = [
+      `# Deduplication report: ${cell(report.indexName)} / ${cell(report.namespace)}`,
+      '',
+      `Analysis \`${report.analysisId}\`, run ${report.analyzedAt}${report.expired ? ' (expired, pending groups can no longer be deleted)' : ''}, report generated ${report.generatedAt}.`,
+      '',
+      '| Total | Count |',
+      '| --- | ---: |',
+      `| Documents in namespace | ${totals.totalDocuments} |`,
+      `| Documents analyzed | ${totals.analyzedDocuments} |`,
+      `| Duplicate groups | ${totals.duplicateGroups} |`,
+      `| Duplicate documents | ${totals.duplicateDocuments} |`,
+      `| Groups deleted | ${totals.deletedGroups} |`,
+      `| Documents deleted | ${totals.deletedDocuments} |`,
+      `| Groups pending | ${totals.pendingGroups} |`,
+      '',
+      '## Groups',
+      '',
+      '| Group | Status | Similarity | Matching fields | Kept | Deleted |',
+      '| --- | --- | ---: | --- | --- | --- |',
+      ...report.groups.map(group =>
+        `| ${cell(group.groupId)} | ${group.status} | ${group.similarityScore.toFixed(1)}% | ${cell(group.matchingFields.join(', '))} | ${ids([group.keptId])}${group.mergedMetadata ? ' (merged)' : ''} | ${ids(group.deletedIds)} |`
+      )
+    ];
+
+    if (report.errors.length > 0) {
+      lines.push('', '## Errors', '', ...report.errors.map(error => `- ${cell(error)}`));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // No external CSS or scripts - the file gets mailed around and opened offline
+  private toHtml(report: DeduplicationReport): string {
+    const escape = (text: string | number) => String(text).replace(/[&<>"']/g, char =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' })[char]!);
+    const ids = (list: string[]) => list.map(id => `<code>${escape(id)}</code>`).join(' ');
+    const { totals } = report;
+
+    const totalRows = [
+      ['Documents in namespace', totals.totalDocuments],
+      ['Documents analyzed', totals.analyzedDocuments],
+      ['Duplicate groups', totals.duplicateGroups],
+      ['Duplicate documents', totals.duplicateDocuments],
+      ['Groups deleted', totals.deletedGroups],
+      ['Documents deleted', totals.deletedDocuments],
+      ['Groups pending', totals.pendingGroups]
+    ].map(([label, value]) => `<tr><th>${escape(label)}</th><td class="num">${escape(value)}</td></tr>`).join('\n');
+
+    const groupRows = report.groups.map(group => `
+      <tr class="${group.status}">
+        <td>${escape(group.groupId)}</td>
+        <td>${group.status}${group.deletedAt ? `<br><small>${escape(group.deletedAt)}</small>` : ''}</td>
+        <td class="num">${group.similarityScore.toFixed(1)}%</td>
+        <td>${escape(group.reason)}</td>
+        <td>${escape(group.matchingFields.join(', '))}</td>
+        <td>${ids([group.keptId])}${group.mergedMetadata ? ' <small>(merged)</small>' : ''}</td>
+        <td>${ids(group.deletedIds)}</td>
+      </tr>`).join('');
+
+    const title = `Deduplication report: ${report.indexName} / ${report.namespace}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escape(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2em; color: #212529; }
+  table { border-collapse: collapse; margin-bottom: 2em; }
+  th, td { border: 1px solid #dee2e6; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: #f8f9fa; }
+  td.num { text-align: right; }
+  tr.deleted td { background: #f8d7da; }
+  code { color: #e83e8c; }
+  .meta { color: #6c757d; }
+</style>
+</head>
+<body>
+<h1>${escape(title)}</h1>
+<p class="meta">Analysis <code>${escape(report.analysisId)}</code>, run ${escape(report.analyzedAt)}${report.expired ? ' (expired, pending groups can no longer be deleted)' : ''}. Report generated ${escape(report.generatedAt)}.</p>
+<h2>Totals</h2>
+<table>
+${totalRows}
+</table>
+<h2>Groups</h2>
+<table>
+  <thead><tr><th>Group</th><th>Status</th><th>Similarity</th><th>Reason</th><th>Matching fields</th><th>Kept</th><th>Deleted</th></tr></thead>
+  <tbody>${groupRows}
+  </tbody>
+</table>
+${report.errors.length > 0 ? `<h2>Errors</h2>\n<ul>${report.errors.map(error => `<li>${escape(error)}</li>`).join('')}</ul>` : ''}
+</body>
+</html>
+`;
+  }
+}
+
+export default new DeduplicationReportService();
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pineconeService from './pineconeService';
+import deduplicationService, { DeduplicationOptions } from './deduplicationService';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('./pineconeService', () => ({
+  __esModule: true,
+  default: {
+    countNamespaceRecords: jest.fn(),
+    scanNamespace: jest.fn(),
+    fetchDocuments: jest.fn(),
+    describeIndex: jest.fn()
+  }
+}));
+
+jest.mock('./snapshotService', () => ({ __esModule: true, default: {} }));
+
+const mocked = pineconeService as jest.Mocked<typeof pineconeService>;
+
+const records = [
+  { id: 'a', metadata: { title: 'Quarterly report', source: 'wiki' } },
+  { id: 'b', metadata: { title: 'Quarterly report', source: 'wiki' } },
+  { id: 'c', metadata: { title: 'Onboarding checklist', source: 'kb' } }
+];
+
+const options = (overrides: Partial<DeduplicationOptions> = {}): DeduplicationOptions => ({ similarity: 'exact', strategy: 'keep-first', ...overrides });
+
+describe('DeduplicationService.findMetadataDuplicates', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dedup-'));
+    process.env.DATA_DIR = dir;
+    mocked.countNamespaceRecords.mockResolvedValue(records.length);
+    mocked.scanNamespace.mockImplementation(async function* () {
+      yield { records, scanned: records.length, checkpoint: null } as any;
+    } as any);
+    mocked.fetchDocuments.mockImplementation(async (_index, ids) => records.filter(record => ids.includes(record.id)) as any);
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('groups exact metadata duplicates and stores the analysis', async () => {
+    const analysis = await deduplicationService.findMetadataDuplicates('docs', 'en', options());
+
+    expect(analysis.duplicateGroups).toHaveLength(1);
+    expect(analysis.duplicateGroups[0].documents.map(doc => doc.id)).toEqual(['a', 'b']);
+    expect(analysis.threshold).toBe(85);
+    await expect(deduplicationService.getAnalysis('docs', analysis.analysisId)).resolves.toBeDefined();
+  });
+
+  it('keeps an explicit threshold of 0 instead of the default', async () => {
+    const analysis = await deduplicationService.findMetadataDuplicates('docs', 'en', options({ similarity: 'fuzzy', threshold: 0 }));
+    expect(analysis.threshold).toBe(0);
+  });
+
+  it.each([
+    [{ similarity: 'fuzzyish' as any }, /Unknown similarity "fuzzyish"/],
+    [{ strategy: 'keep-last' as any }, /Unknown strategy "keep-last"/],
+    [{ similarity: 'fuzzy' as const, threshold: NaN }, /threshold must be a percentage/],
+    [{ similarity: 'custom' as const, threshold: 150 }, /threshold must be a percentage/],
+    [{ similarity: 'vector' as const, threshold: 20 }, /Vector threshold 20 is ambiguous/],
+    [{ ttlHours: 0 }, /ttlHours must be a positive number/]
+  ])('refuses %j before scanning', async (overrides, message) => {
+    const analysis = deduplicationService.findMetadataDuplicates('docs', 'en', options(overrides));
+
+    await expect(analysis).rejects.toThrow(ValidationError);
+    await expect(analysis).rejects.toThrow(message);
+    expect(mocked.countNamespaceRecords).not.toHaveBeenCalled();
+  });
+
+  it('scores documents with long text again in full before grouping them', async () => {
+    const text = 'Quarterly revenue grew in every region. '.repeat(30);
+    const chunks = [
+      { id: 'a', metadata: { text, source: 'wiki' } },
+      { id: 'b', metadata: { text, source: 'kb' } },
+      // Same first 1200 characters, then a long tail nobody would call a duplicate
+      { id: 'c', metadata: { text: text + 'Headcount is flat. '.repeat(25), source: 'wiki' } }
+    ];
+    mocked.scanNamespace.mockImplementation(async function* () {
+      yield { records: chunks, scanned: chunks.length, checkpoint: null } as any;
+    } as any);
+    mocked.fetchDocuments.mockImplementation(async (_index, ids) => chunks.filter(chunk => ids.includes(chunk.id)) as any);
+
+    const analysis = await deduplicationService.findMetadataDuplicates('docs', 'en', options({ similarity: 'custom', includeKeys: ['text'] }));
+
+    expect(analysis.duplicateGroups.map(group => group.documents.map(doc => doc.id))).toEqual([['a', 'b']]);
+    expect(analysis.duplicateGroups[0].documents[0].metadata.text).toBe(text);
+  });
+});
+
+describe('DeduplicationService.findCrossLocationDuplicates', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('validates options before scanning', async () => {
+    const locations = [{ indexName: 'docs', namespace: 'en' }, { indexName: 'docs', namespace: 'fr' }];
+
+    await expect(deduplicationService.findCrossLocationDuplicates(locations, options({ strategy: 'oldest' as any }))).rejects.toThrow(/Unknown strategy/);
+    await expect(deduplicationService.findCrossLocationDuplicates(locations, options({ threshold: -1 }))).rejects.toThrow(/threshold must be a percentage/);
+    await expect(deduplicationService.findCrossLocationDuplicates(locations, options({ ttlHours: NaN }))).rejects.toThrow(/ttlHours must be a positive number/);
+    expect(mocked.countNamespaceRecords).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,23 @@
 // Deduplication service for metadata-based duplicate detection
 // Jean-Claude's enterprise-grade duplicate elimination system
 
-import { RecordMetadata } from '@pinecone-database/pinecone';
-import pineconeService from './pineconeService';
+import fs from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import { RecordMetadata, RecordMetadataValue } from '@pinecone-database/pinecone';
+import pineconeService, { DocumentRecord } from './pineconeService';
+import snapshotService from './snapshotService';
+import duplicateVerdictService, { PairVerdict, VerdictInputSchema, verdictPairKey } from './duplicateVerdictService';
+import { stringSimilarity } from '../utils/stringSimilarity';
+import { HttpError, NotFoundError, ValidationError } from '../utils/errors';
+import { dataPath, listFiles, readJson, withFileLock, writeJson } from '../utils/localStore';
+import { MergeRules, MetadataMergeEngine } from '../utils/metadataMerge';
+import { SurvivorDecision, SurvivorRule, SurvivorSelector } from '../utils/survivorRules';
+import { BlockingIndex, hash32, hash53, lshBucketKeys, minHashSignature, shingles } from '../utils/blocking';
+
+export interface DuplicateLocation {
+  indexName: string;
+  namespace: string; // Raw namespace, '' for the default one
+}
 
 export interface DuplicateGroup {
   id: string;
@@ -11,17 +26,51 @@ export interface DuplicateGroup {
     id: string;
     metadata: RecordMetadata;
     lastModified?: string;
+    location?: DuplicateLocation; // Cross-location analyses only - the same ID can live in several places
   }>;
-  recommendedAction: 'keep-first' | 'keep-newest' | 'manual-review';
+  recommendedAction: 'keep-first' | 'keep-newest' | 'manual-review' | 'merge';
+  survivor?: SurvivorDecision & { location?: DuplicateLocation }; // Which document stays and the rule that decided it
   reason: string;
   matchingFields: string[];
+  breakdown?: GroupBreakdown; // Why the members matched, pair by pair and field by field
+}
+
+export type FieldComparator = 'exact' | 'missing' | 'type-mismatch' | 'url' | 'filename' | 'date' | 'levenshtein' | 'numeric' | 'object';
+
+export interface FieldScore {
+  key: string;
+  valueA: RecordMetadataValue | null; // null when the document lacks the key; long strings are cut short
+  valueB: RecordMetadataValue | null;
+  comparator: FieldComparator;
+  score: number; // 0-100
+}
+
+export interface PairBreakdown {
+  idA: string;
+  idB: string;
+  locationA?: DuplicateLocation; // Cross-location analyses only
+  locationB?: DuplicateLocation;
+  score: number; // Metadata similarity, or vector similarity as a percentage in vector mode
+  fields: FieldScore[]; // Lowest scores first
+}
+
+export interface GroupBreakdown {
+  pairs: PairBreakdown[];
+  complete: boolean; // false for big groups, where only pairs with the first member are listed
 }
 
 export interface DuplicationAnalysis {
+  analysisId: string; // Deletion and preview work from the stored analysis, never from client-supplied groups
+  createdAt: string;
+  expiresAt: string;
   indexName: string;
   namespace: string;
-  totalDocuments: number;
+  totalDocuments: number; // Records in the namespace according to index stats
+  analyzedDocuments: number; // Records actually scanned and compared
+  similarity: DeduplicationOptions['similarity'];
+  threshold: number; // Effective threshold, 0-100 like the scores (vector thresholds scaled up)
   duplicateGroups: DuplicateGroup[];
+  survivorRules: SurvivorRule[]; // The chain the survivors were picked with
   potentialSavings: {
     documentsToDelete: number;
     estimatedStorageSaved: string;
@@ -32,6 +81,21 @@ export interface DuplicationAnalysis {
     fuzzyMatches: number;
     uniqueDocuments: number;
   };
+  timings: {
+    scanMs: number; // Waiting on Pinecone
+    blockingMs: number; // Hashing documents into buckets
+    comparisonMs: number; // Scoring candidate pairs and grouping
+    fetchMs: number; // Fetching full metadata for grouped documents
+    totalMs: number;
+  };
+  comparisonMetrics: {
+    method: 'blocking' | 'all-pairs';
+    comparisons: number; // Pairs actually scored - all-pairs would be n * (n - 1) / 2
+    blocks: number;
+    oversizedBlocks: number;
+    largestBlock: number;
+    excludedPairs: number; // Matches skipped because a reviewer said "not a duplicate"
+  };
 }
 
 export interface DeletionResult {
@@ -39,24 +103,146 @@ export interface DeletionResult {
   deletedGroups: number;
   deletedDocuments: number;
   errors: string[];
+  snapshotId?: string; // Set when the deleted records were snapshotted first
   auditTrail: Array<{
     groupId: string;
     deletedIds: string[];
     keptId: string;
     reason: string;
     timestamp: string;
+    mergedMetadata?: RecordMetadata; // What the survivor was updated to, for merge groups
+  }>;
+}
+
+// What's kept on disk: the analysis plus what deletion needs to know it's still valid
+export interface StoredDuplicationAnalysis {
+  analysis: DuplicationAnalysis;
+  namespace: string; // Raw namespace, '' for the default one
+  expectedVectorCount: number; // Namespace size the groups are valid for, lowered after each deletion
+  deletedGroupIds: string[];
+  deletions: Array<DeletionResult & { deletedAt: string }>; // Kept for reports
+  mergeRules?: MergeRules; // Conflict rules for merge groups, fixed at analysis time
+}
+
+export interface DuplicateGroupPreview {
+  analysisId: string;
+  group: DuplicateGroup;
+  keptId: string; // What deletion would keep...
+  deleteIds: string[]; // ...and remove
+  documents: Array<{ id: string; metadata: RecordMetadata; found: boolean }>; // Current metadata; stored copy if the record is gone
+  mergedMetadata?: RecordMetadata; // What the survivor would become, for merge groups
+  fieldDiff: Array<{
+    key: string;
+    identical: boolean;
+    values: Record<string, RecordMetadataValue | null>; // Document ID -> value, null when the key is missing
+  }>;
+}
+
+export interface CrossLocationGroup extends DuplicateGroup {
+  locations: Array<DuplicateLocation & { documents: number }>; // Where the group's copies live
+  spansLocations: boolean;
+}
+
+export interface CrossLocationAnalysis {
+  analysisId: string; // xdup-..., a separate family from single-namespace analyses
+  createdAt: string;
+  expiresAt: string;
+  locations: Array<DuplicateLocation & { totalDocuments: number; analyzedDocuments: number }>;
+  similarity: DeduplicationOptions['similarity'];
+  threshold: number;
+  duplicateGroups: CrossLocationGroup[];
+  survivorRules: SurvivorRule[];
+  potentialSavings: {
+    documentsToDelete: number;
+    estimatedStorageSaved: string;
+  };
+  processingTime: number;
+  timings: DuplicationAnalysis['timings'];
+  comparisonMetrics: Omit<DuplicationAnalysis['comparisonMetrics'], 'excludedPairs'>;
+}
+
+export interface CrossLocationDeletionResult {
+  success: boolean;
+  deletedGroups: number;
+  deletedDocuments: number;
+  errors: string[];
+  snapshots: Array<DuplicateLocation & { snapshotId: string }>;
+  auditTrail: Array<{
+    groupId: string;
+    deleted: Array<{ id: string; location: DuplicateLocation }>;
+    kept: Array<{ id: string; location: DuplicateLocation }>;
+    reason: string;
+    timestamp: string;
   }>;
 }
 
+export interface StoredCrossLocationAnalysis {
+  analysis: CrossLocationAnalysis;
+  expectedVectorCounts: number[]; // Per location, in analysis.locations order
+  deletedDocuments: string[]; // documentKey() of everything deleted so far
+  deletions: Array<CrossLocationDeletionResult & { deletedAt: string }>;
+}
+
+export type SimilarityMode = 'exact' | 'fuzzy' | 'custom' | 'vector';
+
+export const SIMILARITY_MODES: SimilarityMode[] = ['exact', 'fuzzy', 'custom', 'vector'];
+
+export type DeduplicationStrategy = 'keep-first' | 'keep-newest' | 'manual' | 'merge';
+
+export const DEDUPLICATION_STRATEGIES: DeduplicationStrategy[] = ['keep-first', 'keep-newest', 'manual', 'merge'];
+
 export interface DeduplicationOptions {
-  similarity: 'exact' | 'fuzzy' | 'custom';
-  threshold?: number; // 0-100, default 85 for fuzzy
+  similarity: SimilarityMode;
+  threshold?: number; // 0-100, default 85 for fuzzy; 0-1 (or 0-100) vector similarity, default 0.99 for vector
   includeKeys?: string[]; // Only compare these keys
   excludeKeys?: string[]; // Skip these keys
-  maxDocuments?: number; // Limit analysis scope
-  strategy: 'keep-first' | 'keep-newest' | 'manual';
+  maxDocuments?: number; // Limit analysis scope, default 1000; 0 = whole namespace (not for vector)
+  strategy: DeduplicationStrategy;
+  mergeRules?: MergeRules; // merge only: per-key conflict rules, default prefer-survivor
+  survivorRules?: SurvivorRule[]; // Which document each group keeps; defaults to the strategy's (newest or group order)
+  ttlHours?: number; // How long the stored analysis can be used for deletion, default 24
+}
+
+// Buckets shared by more documents than this ("language=en") are too common to mean anything
+const MAX_BLOCK_SIZE = 100;
+// 12 bands of 4 rows: pairs with ~55% shingle overlap have even odds of meeting, ~80% almost always do
+const LSH_BANDS = 12;
+const LSH_ROWS = 4;
+// Long text fields are shingled from their start only - enough to tell chunks apart
+const MAX_SHINGLE_TEXT = 1000;
+// The scan keeps compared strings up to this length; longer ones keep their start plus a fingerprint of the whole
+const MAX_COMPARED_TEXT = 500;
+const DEFAULT_ANALYSIS_TTL_HOURS = 24;
+const DEFAULT_THRESHOLD = 85; // Metadata modes; vector mode defaults to 0.99 in vectorThreshold
+// Groups up to this size list every pair (45); bigger ones only compare against their first member
+const MAX_BREAKDOWN_MEMBERS = 10;
+// Breakdown values are for eyeballing a diff, not for reconstructing the record
+const MAX_BREAKDOWN_VALUE_LENGTH = 300;
+const ANALYSIS_ID_PATTERN = /^dup-[\w-]+$/;
+const CROSS_ANALYSIS_ID_PATTERN = /^xdup-[\w-]+$/;
+// Pinecone index names can't contain "_", so this directory never collides with an index's
+const CROSS_LOCATION_DIR = '_cross-location';
+
+// What the analysis keeps per scanned document: a fingerprint of the whole metadata for exact matches,
+// the compared fields (long values shortened) for fuzzy modes, the vector for vector mode.
+// Full metadata is fetched for grouped documents only.
+interface ScannedDocument {
+  id: string;
+  metadataHash: string;
+  fields: RecordMetadata;
+  values?: number[];
+  location?: DuplicateLocation;
+}
+
+interface DocumentCluster {
+  members: ScannedDocument[];
+  vectorScore?: number; // Lowest similarity to the seed, vector mode only
 }
 
+const locationKey = (location: DuplicateLocation): string => `${location.indexName}\u0000${location.namespace}`;
+const locationLabel = (location: DuplicateLocation): string => `${location.indexName}:${(location.namespace || '(no namespace)')}`;
+const documentKey = (id: string, location: DuplicateLocation): string => `${locationKey(location)}\u0000${id}`;
+
 export class DeduplicationService {
 
   /**
@@ -68,25 +254,60 @@ export class DeduplicationService {
     options: DeduplicationOptions
   ): Promise<DuplicationAnalysis> {
     const startTime = Date.now();
+    this.validateOptions(options);
 
     console.log(`🔍 Starting duplicate analysis for ${indexName}:${(namespace || '(no namespace)')}`);
 
-    // Fetch documents from the namespace
-    const documents = await pineconeService.queryDocuments(indexName, {
-      namespace,
-      topK: options.maxDocuments || 1000,
-      includeMetadata: true,
-      random: false
-    });
+    const totalDocuments = await pineconeService.countNamespaceRecords(indexName, namespace);
+
+    const byVector = options.similarity === 'vector';
+    const maxDocuments = options.maxDocuments ?? 1000;
+    if (byVector && maxDocuments <= 0) {
+      throw new ValidationError('Vector deduplication keeps every vector in memory. Pass a maxDocuments limit.');
+    }
+
+    // Metadata modes bucket documents while the namespace streams past, so only documents
+    // sharing a bucket ever get compared. Vector mode still compares all pairs.
+    const documents: ScannedDocument[] = [];
+    const blocking = new BlockingIndex(MAX_BLOCK_SIZE);
+    let blockingMs = 0;
+    const scanStart = performance.now();
+
+    scan: for await (const batch of pineconeService.scanNamespace(indexName, { namespace, includeValues: byVector })) {
+      for (const doc of batch.records) {
+        if (maxDocuments > 0 && documents.length >= maxDocuments) break scan;
+
+        if (!byVector) {
+          const blockingStart = performance.now();
+          this.addBlockingKeys(blocking, documents.length, doc.metadata, options);
+          blockingMs += performance.now() - blockingStart;
+        }
+        documents.push(this.compactDocument(doc, options));
+      }
+    }
 
-    console.log(`Analyzing ${documents.length} documents for duplicates`);
+    const scanMs = performance.now() - scanStart - blockingMs;
+
+    console.log(`Analyzing ${documents.length} of ${totalDocuments} documents for duplicates`);
 
     if (documents.length === 0) {
       throw new Error(`No documents found in namespace "${namespace}"`);
     }
 
-    // Group documents by metadata similarity
-    const duplicateGroups = this.identifyDuplicateGroups(documents, options);
+    // Pairs reviewers already rejected never end up in the same group again
+    const rejectedPairs = await duplicateVerdictService.nonDuplicatePairs(indexName, namespace);
+
+    // Cluster documents by vector or metadata similarity
+    const metric = byVector ? (await pineconeService.describeIndex(indexName)).metric : undefined;
+    const comparisonStart = performance.now();
+    const { clusters, comparisons, excludedPairs } = metric
+      ? this.clusterByVector(documents, metric, options, rejectedPairs)
+      : this.clusterByMetadata(documents, blocking, options, rejectedPairs);
+    const comparisonMs = performance.now() - comparisonStart;
+
+    const fetchStart = performance.now();
+    const duplicateGroups = await this.buildGroups(clusters, options, { indexName, namespace }, metric);
+    const fetchMs = performance.now() - fetchStart;
 
     // Calculate metrics
     const exactMatches = duplicateGroups.filter(g => g.similarityScore >= 99.9).length;
@@ -94,13 +315,23 @@ export class DeduplicationService {
     const documentsInGroups = duplicateGroups.reduce((sum, group) => sum + group.documents.length, 0);
     const documentsToDelete = duplicateGroups.reduce((sum, group) => sum + (group.documents.length - 1), 0);
 
+    const ttlHours = options.ttlHours ?? DEFAULT_ANALYSIS_TTL_HOURS;
+
     const processingTime = Date.now() - startTime;
+    const createdAt = new Date().toISOString();
 
     const analysis: DuplicationAnalysis = {
+      analysisId: `dup-${createdAt.replace(/[-:.]/g, '')}-${randomBytes(3).toString('hex')}`,
+      createdAt,
+      expiresAt: new Date(Date.now() + ttlHours * 3600 * 1000).toISOString(),
       indexName,
       namespace: (namespace || '(no namespace)'),
-      totalDocuments: documents.length,
+      totalDocuments,
+      analyzedDocuments: documents.length,
+      similarity: options.similarity,
+      threshold: byVector ? this.vectorThreshold(options) * 100 : options.threshold ?? DEFAULT_THRESHOLD,
       duplicateGroups,
+      survivorRules: this.survivorRules(options),
       potentialSavings: {
         documentsToDelete,
         estimatedStorageSaved: this.estimateStorageSavings(documentsToDelete)
@@ -110,20 +341,482 @@ export class DeduplicationService {
         exactMatches,
         fuzzyMatches,
         uniqueDocuments: documents.length - documentsInGroups
+      },
+      timings: {
+        scanMs: Math.round(scanMs),
+        blockingMs: Math.round(blockingMs),
+        comparisonMs: Math.round(comparisonMs),
+        fetchMs: Math.round(fetchMs),
+        totalMs: processingTime
+      },
+      comparisonMetrics: {
+        method: byVector ? 'all-pairs' : 'blocking',
+        comparisons,
+        ...(byVector ? { blocks: 0, oversizedBlocks: 0, largestBlock: 0 } : blocking.stats()),
+        excludedPairs
+      }
+    };
+
+    await this.removeExpiredAnalyses(indexName);
+    await this.saveAnalysis({ analysis, namespace, expectedVectorCount: totalDocuments, deletedGroupIds: [], deletions: [], mergeRules: options.mergeRules });
+
+    console.log(`Duplicate analysis complete: ${duplicateGroups.length} duplicate groups found in ${processingTime}ms (${comparisons} comparisons)`);
+    return analysis;
+  }
+
+  /**
+   * Load a stored analysis. Expired ones are gone as far as callers are concerned - except
+   * reports, which pass includeExpired to read the deletion records those keep.
+   */
+  async getAnalysis(indexName: string, analysisId: string, options: { includeExpired?: boolean } = {}): Promise<StoredDuplicationAnalysis> {
+    const stored = await readJson<StoredDuplicationAnalysis>(this.analysisPath(indexName, analysisId));
+    if (!stored) {
+      throw new NotFoundError(`Duplicate analysis ${analysisId} not found for index "${indexName}"`);
+    }
+    if (!options.includeExpired && Date.parse(stored.analysis.expiresAt) <= Date.now()) {
+      throw new HttpError(410, `Duplicate analysis ${analysisId} expired at ${stored.analysis.expiresAt}. Run a new one.`);
+    }
+    return stored;
+  }
+
+  /**
+   * One group with its documents as they are now, and which fields actually differ
+   */
+  async previewGroup(indexName: string, analysisId: string, groupId: string): Promise<DuplicateGroupPreview> {
+    const stored = await this.getAnalysis(indexName, analysisId);
+    const group = stored.analysis.duplicateGroups.find(candidate => candidate.id === groupId);
+    if (!group) {
+      throw new NotFoundError(`Group ${groupId} not found in analysis ${analysisId}`);
+    }
+
+    const current = await pineconeService.fetchDocuments(indexName, group.documents.map(doc => doc.id), { namespace: stored.namespace });
+    const currentById = new Map(current.map(doc => [doc.id, doc]));
+
+    const documents = group.documents.map(doc => {
+      const found = currentById.get(doc.id);
+      return { id: doc.id, metadata: found ? found.metadata : doc.metadata, found: !!found };
+    });
+
+    const keys = Array.from(new Set(documents.flatMap(doc => Object.keys(doc.metadata)))).sort();
+    const fieldDiff = keys.map(key => {
+      const values: Record<string, RecordMetadataValue | null> = {};
+      for (const doc of documents) values[doc.id] = key in doc.metadata ? doc.metadata[key] : null;
+
+      const serialized = new Set(Object.values(values).map(value => JSON.stringify(value)));
+      return { key, identical: serialized.size === 1, values };
+    });
+
+    // Differences first - identical fields are the boring part
+    fieldDiff.sort((a, b) => Number(a.identical) - Number(b.identical));
+
+    const { toKeep, toDelete } = this.selectDocumentsForDeletion(group);
+    const mergedMetadata = group.recommendedAction === 'merge'
+      ? MetadataMergeEngine.merge(toKeep, documents.filter(doc => doc.found || doc.id === toKeep), stored.mergeRules)
+      : undefined;
+
+    return { analysisId, group, keptId: toKeep, deleteIds: toDelete, documents, fieldDiff, mergedMetadata };
+  }
+
+  /**
+   * Delete selected groups of a stored analysis. Refuses when the namespace has changed size since,
+   * because the groups may no longer describe what's in it.
+   */
+  async deleteAnalysisGroups(
+    indexName: string,
+    analysisId: string,
+    groupIds: string[],
+    options: { snapshot?: boolean } = {}
+  ): Promise<DeletionResult> {
+    // Held for the whole delete: a second request for the same group waits, then finds it already deleted
+    return withFileLock(this.analysisPath(indexName, analysisId), async () => {
+      const stored = await this.getAnalysis(indexName, analysisId);
+      const groupsById = new Map(stored.analysis.duplicateGroups.map(group => [group.id, group]));
+
+      const groups = Array.from(new Set(groupIds)).map(groupId => {
+        const group = groupsById.get(groupId);
+        if (!group) {
+          throw new ValidationError(`Group ${groupId} is not part of analysis ${analysisId}`);
+        }
+        if (stored.deletedGroupIds.includes(groupId)) {
+          throw new ValidationError(`Group ${groupId} of analysis ${analysisId} was already deleted`);
+        }
+        return group;
+      });
+
+      const vectorCount = await pineconeService.countNamespaceRecords(indexName, stored.namespace);
+      if (vectorCount !== stored.expectedVectorCount) {
+        throw new HttpError(409,
+          `Analysis ${analysisId} is stale: expected ${stored.expectedVectorCount} vectors in ${indexName}:${(stored.namespace || '(no namespace)')}, found ${vectorCount}. ` +
+          'Re-run the analysis (index stats can also take a few seconds to catch up after a deletion).'
+        );
+      }
+
+      const result = await this.deleteDuplicates(indexName, groups, stored.namespace, { ...options, mergeRules: stored.mergeRules });
+
+      // Whatever did get deleted is accounted for, so the rest of the analysis stays usable
+      stored.expectedVectorCount -= result.deletedDocuments;
+      stored.deletedGroupIds.push(...result.auditTrail.map(entry => entry.groupId));
+      stored.deletions.push({ ...result, deletedAt: new Date().toISOString() });
+      await this.saveAnalysis(stored);
+
+      return result;
+    });
+  }
+
+  /**
+   * Find duplicate groups across several index/namespace locations - the same source document
+   * ingested into several tenants, or into both docs-v1 and docs-v2. Metadata modes only: vectors
+   * from different indexes needn't share a dimension or a model. Groups inside a single location
+   * are left to the per-namespace analysis unless includeSingleLocation is set.
+   */
+  async findCrossLocationDuplicates(
+    locations: DuplicateLocation[],
+    options: DeduplicationOptions & { includeSingleLocation?: boolean }
+  ): Promise<CrossLocationAnalysis> {
+    const startTime = Date.now();
+
+    if (locations.length < 2) {
+      throw new ValidationError('Cross-location analysis needs at least two index/namespace locations');
+    }
+    if (new Set(locations.map(locationKey)).size !== locations.length) {
+      throw new ValidationError('Each index/namespace location can only be listed once');
+    }
+    this.validateOptions(options);
+    if (options.similarity === 'vector') {
+      throw new ValidationError('Cross-location analysis compares metadata only; vector similarity is per namespace');
+    }
+    if (options.strategy === 'merge') {
+      throw new ValidationError('The merge strategy is not available across locations');
+    }
+
+    const ttlHours = options.ttlHours ?? DEFAULT_ANALYSIS_TTL_HOURS;
+
+    console.log(`🔍 Starting cross-location duplicate analysis over ${locations.map(locationLabel).join(', ')}`);
+
+    // maxDocuments applies per location, so one big namespace can't crowd out the others
+    const maxDocuments = options.maxDocuments ?? 1000;
+    const documents: ScannedDocument[] = [];
+    const blocking = new BlockingIndex(MAX_BLOCK_SIZE);
+    const locationStats: CrossLocationAnalysis['locations'] = [];
+    let blockingMs = 0;
+    const scanStart = performance.now();
+
+    for (const location of locations) {
+      const totalDocuments = await pineconeService.countNamespaceRecords(location.indexName, location.namespace);
+      let analyzedDocuments = 0;
+
+      scan: for await (const batch of pineconeService.scanNamespace(location.indexName, { namespace: location.namespace })) {
+        for (const doc of batch.records) {
+          if (maxDocuments > 0 && analyzedDocuments >= maxDocuments) break scan;
+
+          const blockingStart = performance.now();
+          this.addBlockingKeys(blocking, documents.length, doc.metadata, options);
+          blockingMs += performance.now() - blockingStart;
+
+          documents.push(this.compactDocument(doc, options, location));
+          analyzedDocuments++;
+        }
+      }
+
+      locationStats.push({ ...location, totalDocuments, analyzedDocuments });
+    }
+
+    const scanMs = performance.now() - scanStart - blockingMs;
+
+    if (documents.length === 0) {
+      throw new Error('No documents found in any of the locations');
+    }
+
+    // Reviewer verdicts are per namespace, so they don't apply here
+    const comparisonStart = performance.now();
+    const { clusters, comparisons } = this.clusterByMetadata(documents, blocking, options);
+    const comparisonMs = performance.now() - comparisonStart;
+
+    const fetchStart = performance.now();
+    const groups = await this.buildGroups(clusters, options);
+    const fetchMs = performance.now() - fetchStart;
+
+    const duplicateGroups: CrossLocationGroup[] = groups
+      .map(group => {
+        const counts = new Map<string, DuplicateLocation & { documents: number }>();
+        for (const doc of group.documents) {
+          const key = locationKey(doc.location!);
+          const entry = counts.get(key) || { ...doc.location!, documents: 0 };
+          entry.documents++;
+          counts.set(key, entry);
+        }
+        return { ...group, locations: Array.from(counts.values()), spansLocations: counts.size > 1 };
+      })
+      .filter(group => group.spansLocations || options.includeSingleLocation)
+      .map((group, position) => ({ ...group, id: `group-${position + 1}` }));
+
+    const documentsToDelete = duplicateGroups.reduce((sum, group) => sum + (group.documents.length - 1), 0);
+    const processingTime = Date.now() - startTime;
+    const createdAt = new Date().toISOString();
+
+    const analysis: CrossLocationAnalysis = {
+      analysisId: `xdup-${createdAt.replace(/[-:.]/g, '')}-${randomBytes(3).toString('hex')}`,
+      createdAt,
+      expiresAt: new Date(Date.now() + ttlHours * 3600 * 1000).toISOString(),
+      locations: locationStats,
+      similarity: options.similarity,
+      threshold: options.threshold ?? DEFAULT_THRESHOLD,
+      duplicateGroups,
+      survivorRules: this.survivorRules(options),
+      potentialSavings: {
+        documentsToDelete,
+        estimatedStorageSaved: this.estimateStorageSavings(documentsToDelete)
+      },
+      processingTime,
+      timings: {
+        scanMs: Math.round(scanMs),
+        blockingMs: Math.round(blockingMs),
+        comparisonMs: Math.round(comparisonMs),
+        fetchMs: Math.round(fetchMs),
+        totalMs: processingTime
+      },
+      comparisonMetrics: {
+        method: 'blocking',
+        comparisons,
+        ...blocking.stats()
       }
     };
 
-    console.log(`Duplicate analysis complete: ${duplicateGroups.length} duplicate groups found in ${processingTime}ms`);
+    await this.removeExpiredAnalyses(CROSS_LOCATION_DIR);
+    await writeJson(this.crossAnalysisPath(analysis.analysisId), {
+      analysis,
+      expectedVectorCounts: locationStats.map(location => location.totalDocuments),
+      deletedDocuments: [],
+      deletions: []
+    } as StoredCrossLocationAnalysis);
+
+    console.log(`Cross-location analysis complete: ${duplicateGroups.length} groups across ${locations.length} locations in ${processingTime}ms`);
     return analysis;
   }
 
+  async getCrossLocationAnalysis(analysisId: string): Promise<StoredCrossLocationAnalysis> {
+    const stored = await readJson<StoredCrossLocationAnalysis>(this.crossAnalysisPath(analysisId));
+    if (!stored) {
+      throw new NotFoundError(`Cross-location analysis ${analysisId} not found`);
+    }
+    if (Date.parse(stored.analysis.expiresAt) <= Date.now()) {
+      throw new HttpError(410, `Cross-location analysis ${analysisId} expired at ${stored.analysis.expiresAt}. Run a new one.`);
+    }
+    return stored;
+  }
+
+  /**
+   * Delete the copies of selected groups that live in the chosen locations. One copy always
+   * survives: if a group still has copies outside the chosen locations, every copy inside goes;
+   * if it lives only inside them, the survivor stays and the rest go.
+   */
+  async deleteCrossLocationGroups(
+    analysisId: string,
+    groupIds: string[],
+    scope: DuplicateLocation[],
+    options: { snapshot?: boolean } = {}
+  ): Promise<CrossLocationDeletionResult> {
+    // Same as deleteAnalysisGroups: concurrent deletes wait their turn and see each other's bookkeeping
+    return withFileLock(this.crossAnalysisPath(analysisId), () => this.deleteCrossLocationGroupsLocked(analysisId, groupIds, scope, options));
+  }
+
+  private async deleteCrossLocationGroupsLocked(
+    analysisId: string,
+    groupIds: string[],
+    scope: DuplicateLocation[],
+    options: { snapshot?: boolean }
+  ): Promise<CrossLocationDeletionResult> {
+    const stored = await this.getCrossLocationAnalysis(analysisId);
+    const { analysis } = stored;
+
+    const analyzedLocations = new Set(analysis.locations.map(locationKey));
+    if (scope.length === 0) {
+      throw new ValidationError('Choose at least one location to delete from');
+    }
+    for (const location of scope) {
+      if (!analyzedLocations.has(locationKey(location))) {
+        throw new ValidationError(`${locationLabel(location)} is not one of the locations of analysis ${analysisId}`);
+      }
+    }
+    const inScope = new Set(scope.map(locationKey));
+    const alreadyDeleted = new Set(stored.deletedDocuments);
+    const groupsById = new Map(analysis.duplicateGroups.map(group => [group.id, group]));
+
+    // Plan everything before touching anything, so a bad group ID deletes nothing
+    const plans = Array.from(new Set(groupIds)).map(groupId => {
+      const group = groupsById.get(groupId);
+      if (!group) {
+        throw new ValidationError(`Group ${groupId} is not part of analysis ${analysisId}`);
+      }
+
+      const live = group.documents.filter(doc => !alreadyDeleted.has(documentKey(doc.id, doc.location!)));
+      const inside = live.filter(doc => inScope.has(locationKey(doc.location!)));
+      const outside = live.filter(doc => !inScope.has(locationKey(doc.location!)));
+
+      let toDelete = inside;
+      if (outside.length === 0 && inside.length > 0) {
+        const survivor = inside[SurvivorSelector.selectIndex(inside, analysis.survivorRules).index];
+        toDelete = inside.filter(doc => doc !== survivor);
+      }
+      if (toDelete.length === 0) {
+        throw new ValidationError(`Group ${groupId} has nothing left to delete in the chosen locations`);
+      }
+
+      return { group, toDelete, kept: live.filter(doc => !toDelete.includes(doc)) };
+    });
+
+    // Every location has to look like it did at analysis time, including the ones keeping the copies
+    for (const [position, location] of analysis.locations.entries()) {
+      const vectorCount = await pineconeService.countNamespaceRecords(location.indexName, location.namespace);
+      if (vectorCount !== stored.expectedVectorCounts[position]) {
+        throw new HttpError(409,
+          `Analysis ${analysisId} is stale: expected ${stored.expectedVectorCounts[position]} vectors in ${locationLabel(location)}, found ${vectorCount}. ` +
+          'Re-run the analysis (index stats can also take a few seconds to catch up after a deletion).'
+        );
+      }
+    }
+
+    console.log(`🗑️ Deleting ${plans.length} cross-location groups from ${scope.map(locationLabel).join(', ')}`);
+
+    const snapshots: CrossLocationDeletionResult['snapshots'] = [];
+    if (options.snapshot) {
+      for (const location of scope) {
+        const ids = plans.flatMap(plan => plan.toDelete.filter(doc => locationKey(doc.location!) === locationKey(location)).map(doc => doc.id));
+        if (ids.length === 0) continue;
+        const manifest = await snapshotService.createSnapshot(location.indexName, { namespace: location.namespace, ids, reason: 'delete-duplicates' });
+        snapshots.push({ ...location, snapshotId: manifest.snapshotId });
+      }
+    }
+
+    const auditTrail: CrossLocationDeletionResult['auditTrail'] = [];
+    const errors: string[] = [];
+    let totalDeleted = 0;
+
+    for (const { group, toDelete, kept } of plans) {
+      const deleted: Array<{ id: string; location: DuplicateLocation }> = [];
+
+      for (const location of scope) {
+        const ids = toDelete.filter(doc => locationKey(doc.location!) === locationKey(location)).map(doc => doc.id);
+        if (ids.length === 0) continue;
+
+        try {
+          const deleteResult = await pineconeService.deleteMany(location.indexName, ids, location.namespace);
+          if (!deleteResult.success) {
+            errors.push(`Failed to delete group ${group.id} from ${locationLabel(location)}: Delete operation failed`);
+            continue;
+          }
+
+          deleted.push(...ids.map(id => ({ id, location })));
+          const position = analysis.locations.findIndex(candidate => locationKey(candidate) === locationKey(location));
+          stored.expectedVectorCounts[position] -= ids.length;
+        } catch (error: any) {
+          errors.push(`Error deleting group ${group.id} from ${locationLabel(location)}: ${error.message}`);
+        }
+      }
+
+      if (deleted.length > 0) {
+        totalDeleted += deleted.length;
+        stored.deletedDocuments.push(...deleted.map(doc => documentKey(doc.id, doc.location)));
+        auditTrail.push({
+          groupId: group.id,
+          deleted,
+          kept: kept.map(doc => ({ id: doc.id, location: doc.location! })),
+          reason: group.reason,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+
+    const result: CrossLocationDeletionResult = {
+      success: errors.length === 0,
+      deletedGroups: auditTrail.length,
+      deletedDocuments: totalDeleted,
+      errors,
+      snapshots,
+      auditTrail
+    };
+
+    stored.deletions.push({ ...result, deletedAt: new Date().toISOString() });
+    await writeJson(this.crossAnalysisPath(analysisId), stored);
+
+    console.log(`Cross-location deletion complete: ${totalDeleted} documents deleted, ${errors.length} errors`);
+    return result;
+  }
+
+  /**
+   * Record a reviewer verdict on pairs, or on every pair of a group. Pairs from a stored analysis
+   * keep their score and the analysis threshold, which is what the precision report runs on.
+   */
+  async recordVerdicts(indexName: string, namespace: string, rawInput: unknown): Promise<PairVerdict[]> {
+    const parsed = VerdictInputSchema.safeParse(rawInput);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ValidationError(`Invalid verdict: ${issue.path.join('.') || 'body'} ${issue.message}`);
+    }
+    const input = parsed.data;
+    const decidedAt = new Date().toISOString();
+    const base = { verdict: input.verdict, reviewer: input.reviewer, decidedAt, ...(input.note ? { note: input.note } : {}) };
+
+    if (!input.analysisId) {
+      if (input.groupId || !input.pairs) {
+        throw new ValidationError('Send pairs, or an analysisId with a groupId and/or pairs');
+      }
+      return duplicateVerdictService.addVerdicts(indexName, namespace, input.pairs.map(([idA, idB]) => ({ idA, idB, ...base })));
+    }
+
+    const stored = await this.getAnalysis(indexName, input.analysisId);
+    const { analysis } = stored;
+
+    let groups = analysis.duplicateGroups;
+    if (input.groupId) {
+      groups = groups.filter(group => group.id === input.groupId);
+      if (groups.length === 0) {
+        throw new NotFoundError(`Group ${input.groupId} not found in analysis ${input.analysisId}`);
+      }
+    } else if (!input.pairs) {
+      throw new ValidationError('Send a groupId or pairs along with the analysisId');
+    }
+
+    // Without explicit pairs, the verdict covers every pair in the group. With them, groups may
+    // be empty (an analysis that found nothing) and the pair check below reports it.
+    const pairs = input.pairs || this.allPairs(groups[0].documents.map(doc => doc.id));
+
+    const verdicts = pairs.map(([idA, idB]) => {
+      const group = groups.find(candidate => candidate.documents.some(doc => doc.id === idA) && candidate.documents.some(doc => doc.id === idB));
+      if (!group) {
+        throw new ValidationError(`${idA} and ${idB} are not in the same group of analysis ${input.analysisId}`);
+      }
+      const pair = group.breakdown?.pairs.find(candidate => verdictPairKey(candidate.idA, candidate.idB) === verdictPairKey(idA, idB));
+
+      return {
+        idA,
+        idB,
+        ...base,
+        analysisId: analysis.analysisId,
+        groupId: group.id,
+        similarity: analysis.similarity,
+        threshold: analysis.threshold,
+        // Pairs outside the breakdown (big groups) fall back to the group's score
+        score: pair ? pair.score : group.similarityScore
+      };
+    });
+
+    return duplicateVerdictService.addVerdicts(indexName, stored.namespace, verdicts);
+  }
+
+  private allPairs(ids: string[]): Array<[string, string]> {
+    return ids.flatMap((idA, a) => ids.slice(a + 1).map(idB => [idA, idB] as [string, string]));
+  }
+
   /**
-   * Delete duplicates based on strategy
+   * Delete duplicates based on strategy. Merge groups get the merged metadata written to the
+   * survivor first; if that write fails, nothing in the group is deleted.
    */
   async deleteDuplicates(
     indexName: string,
     duplicateGroups: DuplicateGroup[],
-    namespace: string = ''
+    namespace: string = '',
+    options: { snapshot?: boolean; mergeRules?: MergeRules } = {}
   ): Promise<DeletionResult> {
     const auditTrail: DeletionResult['auditTrail'] = [];
     const errors: string[] = [];
@@ -131,11 +824,34 @@ export class DeduplicationService {
 
     console.log(`🗑️ Starting deletion of ${duplicateGroups.length} duplicate groups`);
 
-    for (const group of duplicateGroups) {
+    const selections = duplicateGroups.map(group => ({ group, ...this.selectDocumentsForDeletion(group) }));
+
+    // Snapshot everything we're about to delete in one go; a failed snapshot aborts the whole deletion
+    let snapshotId: string | undefined;
+    if (options.snapshot) {
+      // Merge survivors are about to change too, so they go in the snapshot as well
+      const ids = selections.flatMap(selection =>
+        selection.group.recommendedAction === 'merge' ? [selection.toKeep, ...selection.toDelete] : selection.toDelete
+      );
+      const manifest = await snapshotService.createSnapshot(indexName, { namespace, ids, reason: 'delete-duplicates' });
+      snapshotId = manifest.snapshotId;
+    }
+
+    for (const { group, toKeep, toDelete } of selections) {
       try {
-        const { toKeep, toDelete } = this.selectDocumentsForDeletion(group);
 
         if (toDelete.length > 0) {
+          // Fold the duplicates' metadata into the survivor, from their current state rather than the analysis copy
+          let mergedMetadata: RecordMetadata | undefined;
+          if (group.recommendedAction === 'merge') {
+            const members = await pineconeService.fetchDocuments(indexName, [toKeep, ...toDelete], { namespace });
+            if (!members.some(member => member.id === toKeep)) {
+              throw new Error(`Survivor ${toKeep} no longer exists, nothing to merge into`);
+            }
+            mergedMetadata = MetadataMergeEngine.merge(toKeep, members, options.mergeRules);
+            await pineconeService.updateMetadata(indexName, toKeep, mergedMetadata, namespace);
+          }
+
           // Delete the duplicates
           const deleteResult = await pineconeService.deleteMany(indexName, toDelete, namespace);
 
@@ -147,7 +863,8 @@ export class DeduplicationService {
               deletedIds: toDelete,
               keptId: toKeep,
               reason: group.reason,
-              timestamp: new Date().toISOString()
+              timestamp: new Date().toISOString(),
+              ...(mergedMetadata ? { mergedMetadata } : {})
             });
           } else {
             errors.push(`Failed to delete group ${group.id}: Delete operation failed`);
@@ -163,6 +880,7 @@ export class DeduplicationService {
       deletedGroups: auditTrail.length,
       deletedDocuments: totalDeleted,
       errors,
+      snapshotId,
       auditTrail
     };
 
@@ -171,64 +889,372 @@ export class DeduplicationService {
   }
 
   /**
-   * Identify groups of duplicate documents
+   * Cluster documents by metadata. Each unclustered document seeds a cluster and is compared
+   * with the candidates it shares a bucket with, in scan order.
    */
-  private identifyDuplicateGroups(
-    documents: Array<{ id: string; metadata: any }>,
-    options: DeduplicationOptions
-  ): DuplicateGroup[] {
-    const groups: DuplicateGroup[] = [];
-    const processed = new Set<string>();
+  private clusterByMetadata(
+    documents: ScannedDocument[],
+    blocking: BlockingIndex,
+    options: DeduplicationOptions,
+    rejectedPairs: Set<string> = new Set()
+  ): { clusters: DocumentCluster[]; comparisons: number; excludedPairs: number } {
+    const clusters: DocumentCluster[] = [];
+    const processed = new Uint8Array(documents.length);
+    let comparisons = 0;
+    let excludedPairs = 0;
 
     for (let i = 0; i < documents.length; i++) {
-      if (processed.has(documents[i].id)) continue;
+      if (processed[i]) continue;
 
-      const candidateGroup = [documents[i]];
-      processed.add(documents[i].id);
+      const members = [documents[i]];
+      processed[i] = 1;
 
-      // Find similar documents
-      for (let j = i + 1; j < documents.length; j++) {
-        if (processed.has(documents[j].id)) continue;
+      // Find similar documents among the candidates
+      const candidates = Array.from(blocking.candidates(i)).filter(j => !processed[j]).sort((a, b) => a - b);
 
-        const similarity = this.calculateMetadataSimilarity(
-          documents[i].metadata,
-          documents[j].metadata,
-          options
-        );
+      for (const j of candidates) {
+        const score = this.scannedSimilarity(documents[i], documents[j], options);
+        comparisons++;
 
-        if (similarity.score >= (options.threshold || 85)) {
-          candidateGroup.push(documents[j]);
-          processed.add(documents[j].id);
+        if (score >= (options.threshold ?? DEFAULT_THRESHOLD)) {
+          if (this.isRejected(rejectedPairs, members, documents[j].id)) {
+            excludedPairs++;
+            continue;
+          }
+          members.push(documents[j]);
+          processed[j] = 1;
         }
       }
 
-      // Create group if duplicates found
-      if (candidateGroup.length > 1) {
-        const similarity = this.calculateMetadataSimilarity(
-          candidateGroup[0].metadata,
-          candidateGroup[1].metadata,
-          options
-        );
+      if (members.length > 1) clusters.push({ members });
+    }
 
-        groups.push({
-          id: `group-${groups.length + 1}`,
-          similarityScore: similarity.score,
-          documents: candidateGroup.map(doc => ({
-            id: doc.id,
-            metadata: doc.metadata,
-            lastModified: doc.metadata.lastModified || doc.metadata.timestamp
-          })),
-          recommendedAction: this.determineRecommendedAction(candidateGroup, options.strategy),
-          reason: similarity.reason,
-          matchingFields: similarity.matchingFields
-        });
-      }
+    return { clusters, comparisons, excludedPairs };
+  }
+
+  /**
+   * Turn clusters into duplicate groups. The scan only kept what comparison needed, so grouped
+   * documents are fetched again for their full metadata; any deleted since the scan drop out, and
+   * any that only matched on shortened values are scored again in full.
+   * defaultLocation is where documents without their own location live (single-namespace analyses).
+   */
+  private async buildGroups(
+    clusters: DocumentCluster[],
+    options: DeduplicationOptions,
+    defaultLocation?: DuplicateLocation,
+    metric?: string
+  ): Promise<DuplicateGroup[]> {
+    const locate = (doc: ScannedDocument) => doc.location || defaultLocation!;
+    const metadata = await this.fetchGroupedMetadata(clusters, locate);
+    const groups: DuplicateGroup[] = [];
+    let vanished = 0;
+    let unconfirmed = 0;
+
+    for (const cluster of clusters) {
+      const fetched = cluster.members
+        .filter(doc => metadata.has(documentKey(doc.id, locate(doc))))
+        .map(doc => ({ ...doc, metadata: metadata.get(documentKey(doc.id, locate(doc)))! }));
+      vanished += cluster.members.length - fetched.length;
+
+      const members = metric ? fetched : this.confirmMembers(fetched, options);
+      unconfirmed += fetched.length - members.length;
+      if (members.length < 2) continue;
+
+      const id = `group-${groups.length + 1}`;
+      groups.push(metric
+        ? this.vectorGroup(id, members, cluster.vectorScore!, metric, options)
+        : this.metadataGroup(id, members, options));
+    }
+
+    if (vanished > 0) {
+      console.warn(`⚠️ ${vanished} grouped documents were deleted while the analysis ran. Left out, obviously.`);
+    }
+    if (unconfirmed > 0) {
+      console.log(`${unconfirmed} documents only looked alike in their first ${MAX_COMPARED_TEXT} characters. Left out.`);
     }
 
     // Sort by similarity score (highest first)
     return groups.sort((a, b) => b.similarityScore - a.similarityScore);
   }
 
+  private async fetchGroupedMetadata(
+    clusters: DocumentCluster[],
+    locate: (doc: ScannedDocument) => DuplicateLocation
+  ): Promise<Map<string, RecordMetadata>> {
+    const idsByLocation = new Map<string, { location: DuplicateLocation; ids: string[] }>();
+    for (const doc of clusters.flatMap(cluster => cluster.members)) {
+      const location = locate(doc);
+      const entry = idsByLocation.get(locationKey(location)) || { location, ids: [] };
+      entry.ids.push(doc.id);
+      idsByLocation.set(locationKey(location), entry);
+    }
+
+    const metadata = new Map<string, RecordMetadata>();
+    for (const { location, ids } of idsByLocation.values()) {
+      const records = await pineconeService.fetchDocuments(location.indexName, ids, { namespace: location.namespace });
+      records.forEach(record => metadata.set(documentKey(record.id, location), record.metadata));
+    }
+    return metadata;
+  }
+
+  // The seed and each member scored on full metadata - the same comparison clustering did, unless a value was shortened
+  private confirmMembers<T extends { metadata: RecordMetadata }>(members: T[], options: DeduplicationOptions): T[] {
+    if (options.similarity === 'exact' || members.length === 0) return members;
+
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    return members.filter((doc, i) =>
+      i === 0 || this.calculateMetadataSimilarity(members[0].metadata, doc.metadata, options).score >= threshold);
+  }
+
+  private metadataGroup(
+    id: string,
+    members: Array<{ id: string; metadata: RecordMetadata; location?: DuplicateLocation }>,
+    options: DeduplicationOptions
+  ): DuplicateGroup {
+    const similarity = this.calculateMetadataSimilarity(members[0].metadata, members[1].metadata, options);
+
+    return {
+      id,
+      similarityScore: similarity.score,
+      documents: members.map(doc => ({
+        id: doc.id,
+        metadata: doc.metadata,
+        lastModified: (doc.metadata.lastModified || doc.metadata.timestamp) as string | undefined,
+        ...(doc.location ? { location: doc.location } : {})
+      })),
+      recommendedAction: this.determineRecommendedAction(members, options.strategy),
+      survivor: this.pickSurvivor(members, this.survivorRules(options)),
+      reason: similarity.reason,
+      matchingFields: similarity.matchingFields,
+      breakdown: this.explainGroup(members, options)
+    };
+  }
+
+  /**
+   * Bucket one document: the whole metadata (exact duplicates always meet), each normalized
+   * field value, and MinHash/LSH bands over character shingles of the compared fields (typos meet).
+   */
+  private addBlockingKeys(blocking: BlockingIndex, position: number, metadata: RecordMetadata, options: DeduplicationOptions): void {
+    blocking.add(position, [hash53(JSON.stringify(metadata))], false);
+    if (options.similarity === 'exact') return;
+
+    const keys: number[] = [];
+    const shingleHashes = new Set<number>();
+
+    for (const key of Object.keys(metadata).filter(key => this.isComparedKey(key, options))) {
+      const value = metadata[key];
+
+      if (typeof value === 'number') {
+        keys.push(hash53(`f:${key}=${value}`));
+        shingleHashes.add(hash32(`${key}=${value}`));
+      } else if (typeof value === 'string' || Array.isArray(value)) {
+        const text = (Array.isArray(value) ? value.join(' ') : value).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+        if (!text) continue;
+
+        keys.push(hash53(`f:${key}=${text}`));
+        for (const gram of shingles(text.slice(0, MAX_SHINGLE_TEXT))) {
+          shingleHashes.add(hash32(`${key}\u0000${gram}`));
+        }
+      }
+    }
+
+    if (shingleHashes.size > 0) {
+      keys.push(...lshBucketKeys(minHashSignature(shingleHashes, LSH_BANDS * LSH_ROWS), LSH_ROWS));
+    }
+
+    blocking.add(position, keys);
+  }
+
+  /**
+   * Cluster documents whose vectors are near-identical under the index's metric. Same chunk text
+   * embedded twice lands here even when the metadata differs, which the metadata modes can't see.
+   */
+  private clusterByVector(
+    documents: ScannedDocument[],
+    metric: string,
+    options: DeduplicationOptions,
+    rejectedPairs: Set<string> = new Set()
+  ): { clusters: DocumentCluster[]; comparisons: number; excludedPairs: number } {
+    const threshold = this.vectorThreshold(options);
+
+    const vectors = documents.filter(doc => doc.values && doc.values.length > 0) as Array<ScannedDocument & { values: number[] }>;
+    if (vectors.length === 0) {
+      throw new ValidationError('None of the scanned documents have dense vector values. Vector deduplication needs them.');
+    }
+
+    // Norms once up front instead of once per pair
+    const norms = vectors.map(doc => this.norm(doc.values));
+    const clusters: DocumentCluster[] = [];
+    const processed = new Set<number>();
+    let comparisons = 0;
+    let excludedPairs = 0;
+
+    console.log(`Comparing ${vectors.length} vectors by ${metric} similarity (threshold ${threshold})`);
+
+    for (let i = 0; i < vectors.length; i++) {
+      if (processed.has(i)) continue;
+
+      const members = [i];
+      let lowestScore = 1;
+
+      for (let j = i + 1; j < vectors.length; j++) {
+        if (processed.has(j)) continue;
+
+        const score = this.vectorSimilarity(vectors[i].values, vectors[j].values, norms[i], norms[j], metric);
+        comparisons++;
+        if (score >= threshold) {
+          if (this.isRejected(rejectedPairs, members.map(index => vectors[index]), vectors[j].id)) {
+            excludedPairs++;
+            continue;
+          }
+          members.push(j);
+          processed.add(j);
+          lowestScore = Math.min(lowestScore, score);
+        }
+      }
+
+      if (members.length > 1) {
+        clusters.push({ members: members.map(index => vectors[index]), vectorScore: lowestScore });
+      }
+    }
+
+    return { clusters, comparisons, excludedPairs };
+  }
+
+  private vectorGroup(
+    id: string,
+    members: Array<{ id: string; metadata: RecordMetadata; values?: number[] }>,
+    lowestScore: number,
+    metric: string,
+    options: DeduplicationOptions
+  ): DuplicateGroup {
+    const threshold = this.vectorThreshold(options);
+    const values = members.map(doc => doc.values || []);
+    const norms = values.map(vector => this.norm(vector));
+    const matchingFields = Object.keys(members[0].metadata).filter(key =>
+      members.every(doc => JSON.stringify(doc.metadata[key]) === JSON.stringify(members[0].metadata[key]))
+    );
+    const metadataDiffers = members.some(doc => JSON.stringify(doc.metadata) !== JSON.stringify(members[0].metadata));
+
+    return {
+      id,
+      // Rounded down, so only truly identical vectors count as the 100% "exact" bucket
+      similarityScore: Math.floor(lowestScore * 10000) / 100,
+      documents: members.map(doc => ({
+        id: doc.id,
+        metadata: doc.metadata,
+        lastModified: (doc.metadata.lastModified || doc.metadata.timestamp) as string | undefined
+      })),
+      recommendedAction: this.determineRecommendedAction(members, options.strategy),
+      survivor: this.pickSurvivor(members, this.survivorRules(options)),
+      reason: `Vector ${metric} similarity >= ${threshold}${metadataDiffers ? ' with differing metadata' : ' and identical metadata'}`,
+      matchingFields,
+      breakdown: this.explainGroup(members, options, (a, b) => Math.floor(
+        this.vectorSimilarity(values[a], values[b], norms[a], norms[b], metric) * 10000
+      ) / 100)
+    };
+  }
+
+  /**
+   * Reduce a scanned record to what comparison needs. Fields outside includeKeys never stay in memory,
+   * long compared values are shortened, and exact mode keeps nothing but the fingerprint.
+   */
+  private compactDocument(doc: DocumentRecord, options: DeduplicationOptions, location?: DuplicateLocation): ScannedDocument {
+    const fields: RecordMetadata = {};
+    if (options.similarity === 'fuzzy' || options.similarity === 'custom') {
+      for (const key of Object.keys(doc.metadata)) {
+        if (this.isComparedKey(key, options)) fields[key] = this.compactValue(doc.metadata[key]);
+      }
+    }
+
+    return {
+      id: doc.id,
+      metadataHash: createHash('sha1').update(JSON.stringify(doc.metadata)).digest('base64'),
+      fields,
+      ...(options.similarity === 'vector' ? { values: doc.values } : {}),
+      ...(location ? { location } : {})
+    };
+  }
+
+  // A 20k-character chunk text costs 500 characters: its start for Levenshtein, and a hash of the whole so equal
+  // values stay equal and values that only share a start don't. Lists only ever match exactly, so a hash will do.
+  private compactValue(value: RecordMetadataValue): RecordMetadataValue {
+    if (typeof value === 'string' && value.length > MAX_COMPARED_TEXT) {
+      return `${value.slice(0, MAX_COMPARED_TEXT)}#${hash53(value).toString(36)}`;
+    }
+    if (Array.isArray(value)) {
+      const serialized = JSON.stringify(value);
+      if (serialized.length > MAX_COMPARED_TEXT) return [`#${hash53(serialized).toString(36)}`];
+    }
+    return value;
+  }
+
+  // Same score calculateMetadataSimilarity gives the full records, as long as no value was shortened:
+  // identical metadata is 100, and fuzzy scores only ever look at compared keys
+  private scannedSimilarity(a: ScannedDocument, b: ScannedDocument, options: DeduplicationOptions): number {
+    if (a.metadataHash === b.metadataHash) return 100;
+    if (options.similarity === 'exact') return 0;
+    return this.calculateMetadataSimilarity(a.fields, b.fields, options).score;
+  }
+
+  private norm(vector: number[]): number {
+    return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  }
+
+  // Request values arrive as strings cast to the option types - an unknown mode would quietly take the wrong branch
+  private validateOptions(options: DeduplicationOptions): void {
+    if (!SIMILARITY_MODES.includes(options.similarity)) {
+      throw new ValidationError(`Unknown similarity "${options.similarity}". Use one of: ${SIMILARITY_MODES.join(', ')}`);
+    }
+    if (!DEDUPLICATION_STRATEGIES.includes(options.strategy)) {
+      throw new ValidationError(`Unknown strategy "${options.strategy}". Use one of: ${DEDUPLICATION_STRATEGIES.join(', ')}`);
+    }
+
+    if (options.similarity === 'vector') {
+      this.vectorThreshold(options);
+    } else if (options.threshold !== undefined && (!Number.isFinite(options.threshold) || options.threshold < 0 || options.threshold > 100)) {
+      throw new ValidationError(`threshold must be a percentage between 0 and 100, got ${options.threshold}`);
+    }
+
+    // Checked here and not when the analysis is stored - that's after a scan that can take minutes
+    const ttlHours = options.ttlHours ?? DEFAULT_ANALYSIS_TTL_HOURS;
+    if (!Number.isFinite(ttlHours) || ttlHours <= 0) {
+      throw new ValidationError('ttlHours must be a positive number');
+    }
+  }
+
+  // Accept both 0.99 and 99 - the metadata modes speak percentages, vector people speak fractions.
+  // Anything between 1 and 50 is neither a plausible fraction nor a plausible percentage, so it's refused.
+  private vectorThreshold(options: DeduplicationOptions): number {
+    const threshold = options.threshold ?? 0.99;
+    if (Number.isFinite(threshold) && threshold > 0 && threshold <= 1) return threshold;
+    if (Number.isFinite(threshold) && threshold >= 50 && threshold <= 100) return threshold / 100;
+    throw new ValidationError(`Vector threshold ${threshold} is ambiguous. Use a similarity in (0, 1] like 0.95, or a percentage from 50 to 100.`);
+  }
+
+  // A document joins a group only if no reviewer has rejected it against any member
+  private isRejected(rejectedPairs: Set<string>, members: Array<{ id: string }>, id: string): boolean {
+    return rejectedPairs.size > 0 && members.some(member => rejectedPairs.has(verdictPairKey(member.id, id)));
+  }
+
+  // 1 = identical. Dot product is only meaningful for normalized vectors, and euclidean distance
+  // is squashed into (0, 1] so one threshold works for every index.
+  private vectorSimilarity(a: number[], b: number[], normA: number, normB: number, metric: string): number {
+    if (a.length !== b.length) return 0;
+
+    if (metric === 'euclidean') {
+      let squaredDistance = 0;
+      for (let k = 0; k < a.length; k++) squaredDistance += (a[k] - b[k]) ** 2;
+      return 1 / (1 + Math.sqrt(squaredDistance));
+    }
+
+    let dot = 0;
+    for (let k = 0; k < a.length; k++) dot += a[k] * b[k];
+
+    if (metric === 'dotproduct') return dot;
+    return normA === 0 || normB === 0 ? 0 : dot / (normA * normB);
+  }
+
   /**
    * Calculate similarity between two metadata objects
    */
@@ -257,11 +1283,7 @@ export class DeduplicationService {
     const allKeys = new Set([...keys1, ...keys2]);
 
     // Apply include/exclude filters
-    const keysToCompare = Array.from(allKeys).filter(key => {
-      if (options.includeKeys && !options.includeKeys.includes(key)) return false;
-      if (options.excludeKeys && options.excludeKeys.includes(key)) return false;
-      return true;
-    });
+    const keysToCompare = Array.from(allKeys).filter(key => this.isComparedKey(key, options));
 
     if (keysToCompare.length === 0) {
       return { score: 0, reason: 'No comparable fields', matchingFields: [] };
@@ -274,7 +1296,7 @@ export class DeduplicationService {
       const value1 = metadata1[key];
       const value2 = metadata2[key];
 
-      const fieldScore = this.compareFieldValues(value1, value2, key);
+      const fieldScore = this.compareFieldValues(value1, value2, key).score;
       totalScore += fieldScore;
 
       if (fieldScore > 80) { // Consider it a match if > 80%
@@ -292,46 +1314,103 @@ export class DeduplicationService {
   }
 
   /**
-   * Compare individual field values
+   * Per-pair, per-field scores for a group, with the comparator behind each score. pairScore
+   * overrides the overall pair score (vector mode); otherwise it's the metadata similarity.
+   */
+  private explainGroup(
+    documents: Array<{ id: string; metadata: RecordMetadata; location?: DuplicateLocation }>,
+    options: DeduplicationOptions,
+    pairScore?: (a: number, b: number) => number
+  ): GroupBreakdown {
+    const complete = documents.length <= MAX_BREAKDOWN_MEMBERS;
+    const pairs: PairBreakdown[] = [];
+
+    for (let a = 0; a < (complete ? documents.length : 1); a++) {
+      for (let b = a + 1; b < documents.length; b++) {
+        const metadataA = documents[a].metadata;
+        const metadataB = documents[b].metadata;
+        const keys = Array.from(new Set([...Object.keys(metadataA), ...Object.keys(metadataB)])).filter(key => this.isComparedKey(key, options));
+
+        const fields: FieldScore[] = keys.map(key => {
+          const { score, comparator } = this.compareFieldValues(metadataA[key], metadataB[key], key);
+          return {
+            key,
+            valueA: this.breakdownValue(metadataA[key]),
+            valueB: this.breakdownValue(metadataB[key]),
+            comparator,
+            score: Math.round(score * 100) / 100
+          };
+        });
+        fields.sort((x, y) => x.score - y.score);
+
+        pairs.push({
+          idA: documents[a].id,
+          idB: documents[b].id,
+          ...(documents[a].location ? { locationA: documents[a].location, locationB: documents[b].location } : {}),
+          score: pairScore ? pairScore(a, b) : this.calculateMetadataSimilarity(metadataA, metadataB, options).score,
+          fields
+        });
+      }
+    }
+
+    return { pairs, complete };
+  }
+
+  private breakdownValue(value: RecordMetadataValue | undefined): RecordMetadataValue | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'string' && value.length > MAX_BREAKDOWN_VALUE_LENGTH) {
+      return `${value.slice(0, MAX_BREAKDOWN_VALUE_LENGTH)}…`;
+    }
+    return value;
+  }
+
+  private isComparedKey(key: string, options: DeduplicationOptions): boolean {
+    if (options.includeKeys && !options.includeKeys.includes(key)) return false;
+    if (options.excludeKeys && options.excludeKeys.includes(key)) return false;
+    return true;
+  }
+
+  /**
+   * Compare individual field values, and say which comparator decided
    */
-  private compareFieldValues(value1: any, value2: any, fieldName: string): number {
-    if (value1 === value2) return 100;
-    if (value1 == null || value2 == null) return value1 === value2 ? 100 : 0;
+  private compareFieldValues(value1: any, value2: any, fieldName: string): { score: number; comparator: FieldComparator } {
+    if (value1 === value2) return { score: 100, comparator: 'exact' };
+    if (value1 == null || value2 == null) return { score: 0, comparator: 'missing' };
 
     const type1 = typeof value1;
     const type2 = typeof value2;
 
-    if (type1 !== type2) return 0;
+    if (type1 !== type2) return { score: 0, comparator: 'type-mismatch' };
 
     if (type1 === 'string') {
       return this.compareStrings(value1, value2, fieldName);
     } else if (type1 === 'number') {
-      return this.compareNumbers(value1, value2);
+      return { score: this.compareNumbers(value1, value2), comparator: 'numeric' };
     } else if (type1 === 'object') {
-      return this.compareObjects(value1, value2);
+      return { score: this.compareObjects(value1, value2), comparator: 'object' };
     }
 
-    return 0;
+    return { score: 0, comparator: 'exact' };
   }
 
   /**
    * Smart string comparison with field-specific logic
    */
-  private compareStrings(str1: string, str2: string, fieldName: string): number {
-    if (str1 === str2) return 100;
+  private compareStrings(str1: string, str2: string, fieldName: string): { score: number; comparator: FieldComparator } {
+    if (str1 === str2) return { score: 100, comparator: 'exact' };
 
     // URL comparison (ignore query parameters for some fields)
     if (fieldName.toLowerCase().includes('url') || fieldName.toLowerCase().includes('link')) {
       const url1 = str1.split('?')[0];
       const url2 = str2.split('?')[0];
-      if (url1 === url2) return 95;
+      if (url1 === url2) return { score: 95, comparator: 'url' };
     }
 
     // File name comparison (ignore extensions for some cases)
     if (fieldName.toLowerCase().includes('file') || fieldName.toLowerCase().includes('name')) {
       const name1 = str1.split('.')[0];
       const name2 = str2.split('.')[0];
-      if (name1 === name2) return 90;
+      if (name1 === name2) return { score: 90, comparator: 'filename' };
     }
 
     // Date string normalization
@@ -339,50 +1418,14 @@ export class DeduplicationService {
       try {
         const date1 = new Date(str1).getTime();
         const date2 = new Date(str2).getTime();
-        if (date1 === date2) return 100;
+        if (date1 === date2) return { score: 100, comparator: 'date' };
       } catch (e) {
         // Not valid dates, continue with string comparison
       }
     }
 
     // Basic string similarity (Levenshtein-based)
-    return this.calculateStringSimilarity(str1, str2);
-  }
-
-  /**
-   * Simple string similarity calculation
-   */
-  private calculateStringSimilarity(str1: string, str2: string): number {
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-
-    if (longer.length === 0) return 100;
-
-    const distance = this.levenshteinDistance(str1, str2);
-    return Math.round(((longer.length - distance) / longer.length) * 100);
-  }
-
-  /**
-   * Levenshtein distance calculation
-   */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,
-          matrix[j - 1][i] + 1,
-          matrix[j - 1][i - 1] + indicator
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
+    return { score: stringSimilarity(str1, str2), comparator: 'levenshtein' };
   }
 
   /**
@@ -427,8 +1470,9 @@ export class DeduplicationService {
   private determineRecommendedAction(
     documents: Array<{ id: string; metadata: any }>,
     strategy: string
-  ): 'keep-first' | 'keep-newest' | 'manual-review' {
+  ): DuplicateGroup['recommendedAction'] {
     if (strategy === 'manual') return 'manual-review';
+    if (strategy === 'merge') return 'merge';
     if (strategy === 'keep-first') return 'keep-first';
 
     // For keep-newest, check if we have timestamp information
@@ -440,40 +1484,64 @@ export class DeduplicationService {
   }
 
   /**
-   * Select which documents to keep vs delete
+   * Survivor rule chain for an analysis: the caller's, or what the strategy implies.
+   * keep-newest and merge keep the newest document; everything else keeps the first.
    */
-  private selectDocumentsForDeletion(group: DuplicateGroup): { toKeep: string; toDelete: string[] } {
-    if (group.documents.length <= 1) {
-      return { toKeep: group.documents[0].id, toDelete: [] };
-    }
-
-    let keepIndex = 0;
-
-    if (group.recommendedAction === 'keep-newest') {
-      // Find the newest document
-      let newestTime = 0;
-      for (let i = 0; i < group.documents.length; i++) {
-        const doc = group.documents[i];
-        const timestamp = doc.metadata.lastModified || doc.metadata.timestamp || doc.metadata.created;
-        if (timestamp && (typeof timestamp === 'string' || typeof timestamp === 'number')) {
-          const time = new Date(timestamp).getTime();
-          if (time > newestTime) {
-            newestTime = time;
-            keepIndex = i;
-          }
-        }
-      }
-    }
-    // For 'keep-first' and 'manual-review', use first document (index 0)
+  private survivorRules(options: Pick<DeduplicationOptions, 'strategy' | 'survivorRules'>): SurvivorRule[] {
+    if (options.survivorRules) return options.survivorRules;
+    return options.strategy === 'keep-newest' || options.strategy === 'merge' ? [{ rule: 'newest' }] : [];
+  }
+
+  // Survivor by position, so it stays unambiguous when the same ID sits in two locations
+  private pickSurvivor(documents: Array<{ id: string; metadata: RecordMetadata; location?: DuplicateLocation }>, rules: SurvivorRule[]): DuplicateGroup['survivor'] {
+    const { index, decidedBy } = SurvivorSelector.selectIndex(documents, rules);
+    const { id, location } = documents[index];
+    return location ? { id, decidedBy, location } : { id, decidedBy };
+  }
 
-    const toKeep = group.documents[keepIndex].id;
+  /**
+   * Select which documents to keep vs delete. Public so reports can show the plan for groups not deleted yet.
+   */
+  selectDocumentsForDeletion(group: DuplicateGroup): { toKeep: string; toDelete: string[] } {
+    // Analyses stored before survivor rules existed fall back to what their action implied
+    const impliedRules: SurvivorRule[] = group.recommendedAction === 'keep-newest' || group.recommendedAction === 'merge' ? [{ rule: 'newest' }] : [];
+    const toKeep = group.survivor?.id ?? SurvivorSelector.select(group.documents, impliedRules).id;
     const toDelete = group.documents
-      .filter((_, i) => i !== keepIndex)
+      .filter(doc => doc.id !== toKeep)
       .map(doc => doc.id);
 
     return { toKeep, toDelete };
   }
 
+  private async saveAnalysis(stored: StoredDuplicationAnalysis): Promise<void> {
+    await writeJson(this.analysisPath(stored.analysis.indexName, stored.analysis.analysisId), stored);
+  }
+
+  private analysisPath(indexName: string, analysisId: string): string {
+    if (typeof analysisId !== 'string' || !ANALYSIS_ID_PATTERN.test(analysisId)) {
+      throw new ValidationError(`Invalid analysis id "${analysisId}"`);
+    }
+    return dataPath('duplicate-analyses', indexName, `${analysisId}.json`);
+  }
+
+  private crossAnalysisPath(analysisId: string): string {
+    if (typeof analysisId !== 'string' || !CROSS_ANALYSIS_ID_PATTERN.test(analysisId)) {
+      throw new ValidationError(`Invalid cross-location analysis id "${analysisId}"`);
+    }
+    return dataPath('duplicate-analyses', CROSS_LOCATION_DIR, `${analysisId}.json`);
+  }
+
+  // Expired analyses are swept whenever a new one is saved, so the directory doesn't grow forever.
+  // Ones that deleted anything stay: they're the audit trail of what was removed, and reports read them.
+  private async removeExpiredAnalyses(indexName: string): Promise<void> {
+    for (const file of await listFiles(dataPath('duplicate-analyses', indexName), '.json')) {
+      const other = await readJson<Pick<StoredDuplicationAnalysis, 'analysis' | 'deletions'>>(file);
+      if (other && Date.parse(other.analysis.expiresAt) <= Date.now() && (other.deletions || []).length === 0) {
+        await fs.promises.rm(file, { force: true });
+      }
+    }
+  }
+
   /**
    * Estimate storage savings from deletion
    */
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import duplicateVerdictService, { PairVerdict, verdictPairKey } from './duplicateVerdictService';
+import { ValidationError } from '../utils/errors';
+
+const verdict = (idA: string, idB: string, overrides: Partial<PairVerdict> = {}): PairVerdict => ({
+  idA,
+  idB,
+  verdict: 'duplicate',
+  reviewer: 'ana',
+  decidedAt: '2024-05-01T00:00:00.000Z',
+  ...overrides
+});
+
+// A reviewed pair surfaced by an analysis run at `threshold`
+const scored = (idA: string, idB: string, threshold: number, score: number, duplicate = true): PairVerdict => verdict(idA, idB, {
+  verdict: duplicate ? 'duplicate' : 'not-duplicate',
+  analysisId: `dup-${threshold}`,
+  similarity: 'fuzzy',
+  threshold,
+  score
+});
+
+describe('DuplicateVerdictService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'verdicts-'));
+    process.env.DATA_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores pairs in canonical order', async () => {
+    const [saved] = await duplicateVerdictService.addVerdicts('docs', 'en', [verdict('b', 'a')]);
+
+    expect([saved.idA, saved.idB]).toEqual(['a', 'b']);
+    expect(verdictPairKey('b', 'a')).toBe(verdictPairKey('a', 'b'));
+  });
+
+  it('refuses a document paired with itself and stores nothing', async () => {
+    await expect(duplicateVerdictService.addVerdicts('docs', 'en', [verdict('a', 'b'), verdict('c', 'c')])).rejects.toThrow(ValidationError);
+    await expect(duplicateVerdictService.listVerdicts('docs', 'en')).resolves.toEqual([]);
+  });
+
+  it('keeps the latest verdict on a pair, whichever way round it was spelled', async () => {
+    await duplicateVerdictService.addVerdicts('docs', 'en', [verdict('a', 'b'), verdict('a', 'c', { decidedAt: '2024-05-02T00:00:00.000Z' })]);
+    await duplicateVerdictService.addVerdicts('docs', 'en', [verdict('b', 'a', { verdict: 'not-duplicate', decidedAt: '2024-05-03T00:00:00.000Z' })]);
+
+    const latest = await duplicateVerdictService.listVerdicts('docs', 'en');
+    expect(latest.map(entry => [entry.idA, entry.idB, entry.verdict])).toEqual([
+      ['a', 'b', 'not-duplicate'],
+      ['a', 'c', 'duplicate']
+    ]);
+    expect(await duplicateVerdictService.nonDuplicatePairs('docs', 'en')).toEqual(new Set([verdictPairKey('a', 'b')]));
+    await expect(duplicateVerdictService.listVerdicts('docs', 'fr')).resolves.toEqual([]);
+  });
+
+  it('computes precision per threshold from the pairs scoring at least that much', async () => {
+    await duplicateVerdictService.addVerdicts('docs', 'en', [
+      scored('a', 'b', 80, 82, false),
+      scored('a', 'c', 80, 88),
+      scored('a', 'd', 80, 96),
+      scored('a', 'e', 80, 97)
+    ]);
+
+    const report = await duplicateVerdictService.precisionReport('docs', 'en', { thresholds: [80, 85, 95], targetPrecision: 1 });
+
+    expect(report.byThreshold).toEqual([
+      { threshold: 80, reviewedPairs: 4, duplicates: 3, notDuplicates: 1, precision: 0.75 },
+      { threshold: 85, reviewedPairs: 3, duplicates: 3, notDuplicates: 0, precision: 1 },
+      { threshold: 95, reviewedPairs: 2, duplicates: 2, notDuplicates: 0, precision: 1 }
+    ]);
+    expect(report.suggestedThreshold).toBe(85);
+    expect(report.byAnalysis).toEqual([{ analysisId: 'dup-80', threshold: 80, similarity: 'fuzzy', reviewedPairs: 4, duplicates: 3, notDuplicates: 1, precision: 0.75 }]);
+  });
+
+  it('leaves thresholds below the analysis threshold without a precision', async () => {
+    await duplicateVerdictService.addVerdicts('docs', 'en', [scored('a', 'b', 90, 92), scored('a', 'c', 90, 97)]);
+
+    const report = await duplicateVerdictService.precisionReport('docs', 'en');
+
+    expect(report.byThreshold.filter(bucket => bucket.threshold < 90).map(bucket => bucket.precision)).toEqual([null, null, null, null]);
+    expect(report.byThreshold.find(bucket => bucket.threshold === 90)).toMatchObject({ reviewedPairs: 2, precision: 1 });
+    expect(report.suggestedThreshold).toBe(90);
+  });
+
+  it('leaves vector verdicts out of the metadata report', async () => {
+    await duplicateVerdictService.addVerdicts('docs', 'en', [{ ...scored('a', 'b', 99, 99.5), similarity: 'vector' }]);
+
+    expect((await duplicateVerdictService.precisionReport('docs', 'en')).reviewedPairs).toBe(0);
+    expect((await duplicateVerdictService.precisionReport('docs', 'en', { mode: 'vector' })).reviewedPairs).toBe(1);
+  });
+});
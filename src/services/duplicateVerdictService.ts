@@ -0,0 +1,197 @@
+// Reviewer verdicts on duplicate pairs - "not a duplicate" is remembered, so the same false positives stop coming back
+// Kept per index/namespace as an append-only list; the latest verdict on a pair is the one that counts
+
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors';
+import { dataPath, readJson, withFileLock, writeJson } from '../utils/localStore';
+
+export type Verdict = 'duplicate' | 'not-duplicate';
+
+export interface PairVerdict {
+  idA: string; // idA < idB, so a pair has one spelling
+  idB: string;
+  verdict: Verdict;
+  reviewer: string;
+  decidedAt: string;
+  note?: string;
+  // Where the pair was surfaced, when it came from an analysis - precision is computed from these
+  analysisId?: string;
+  groupId?: string;
+  similarity?: string;
+  threshold?: number; // The analysis threshold, 0-100 like the scores
+  score?: number; // The pair's similarity in that analysis
+}
+
+interface VerdictFile {
+  indexName: string;
+  namespace: string;
+  verdicts: PairVerdict[];
+}
+
+export interface PrecisionBucket {
+  threshold: number;
+  reviewedPairs: number;
+  duplicates: number;
+  notDuplicates: number;
+  precision: number | null; // null when nothing was reviewed at this threshold
+}
+
+export interface PrecisionReport {
+  indexName: string;
+  namespace: string;
+  mode: 'metadata' | 'vector';
+  reviewedPairs: number; // Latest verdicts with a score from an analysis
+  duplicates: number;
+  notDuplicates: number;
+  byThreshold: PrecisionBucket[];
+  byAnalysis: Array<Omit<PrecisionBucket, 'threshold'> & { analysisId: string; threshold?: number; similarity?: string }>;
+  targetPrecision: number;
+  suggestedThreshold: number | null; // Lowest threshold that reached targetPrecision
+}
+
+export const VerdictInputSchema = z.object({
+  verdict: z.enum(['duplicate', 'not-duplicate']),
+  reviewer: z.string({ required_error: 'is required (or send the X-Openrun-User header)' }).trim().min(1, 'is required (or send the X-Openrun-User header)'),
+  note: z.string().max(1000).optional(),
+  analysisId: z.string().optional(),
+  groupId: z.string().optional(),
+  pairs: z.array(z.tuple([z.string().min(1), z.string().min(1)])).min(1).optional()
+});
+
+export type VerdictInput = z.infer<typeof VerdictInputSchema>;
+
+export const DEFAULT_PRECISION_THRESHOLDS = [70, 75, 80, 85, 90, 95, 100];
+
+export function verdictPairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}\u0000${idB}` : `${idB}\u0000${idA}`;
+}
+
+export class DuplicateVerdictService {
+
+  /**
+   * Append verdicts. IDs are put in canonical order; a pair of a document with itself is refused.
+   */
+  async addVerdicts(indexName: string, namespace: string, verdicts: PairVerdict[]): Promise<PairVerdict[]> {
+    const normalized = verdicts.map(verdict => {
+      if (verdict.idA === verdict.idB) {
+        throw new ValidationError(`A document can't be a duplicate of itself (${verdict.idA})`);
+      }
+      return verdict.idA < verdict.idB ? verdict : { ...verdict, idA: verdict.idB, idB: verdict.idA };
+    });
+
+    // Two reviewers saving at once would otherwise both append to the same old list, and one set is lost
+    const file = this.verdictsPath(indexName, namespace);
+    await withFileLock(file, async () => {
+      const stored = await readJson<VerdictFile>(file);
+      await writeJson(file, {
+        indexName,
+        namespace,
+        verdicts: [...(stored?.verdicts || []), ...normalized]
+      });
+    });
+
+    console.log(`⚖️ Recorded ${normalized.length} "${normalized[0]?.verdict}" verdicts for ${indexName}:${(namespace || '(no namespace)')}`);
+    return normalized;
+  }
+
+  /**
+   * The latest verdict on each pair, newest first
+   */
+  async listVerdicts(indexName: string, namespace: string): Promise<PairVerdict[]> {
+    const stored = await readJson<VerdictFile>(this.verdictsPath(indexName, namespace));
+    const latest = new Map<string, PairVerdict>();
+    for (const verdict of stored?.verdicts || []) {
+      latest.set(verdictPairKey(verdict.idA, verdict.idB), verdict);
+    }
+    return Array.from(latest.values()).sort((a, b) => b.decidedAt.localeCompare(a.decidedAt));
+  }
+
+  /**
+   * Pairs reviewers said are not duplicates, as verdictPairKey keys - duplicate analysis skips them
+   */
+  async nonDuplicatePairs(indexName: string, namespace: string): Promise<Set<string>> {
+    const verdicts = await this.listVerdicts(indexName, namespace);
+    return new Set(verdicts
+      .filter(verdict => verdict.verdict === 'not-duplicate')
+      .map(verdict => verdictPairKey(verdict.idA, verdict.idB)));
+  }
+
+  /**
+   * Precision of past analyses from reviewer verdicts: of the reviewed pairs scoring at least a
+   * threshold, how many were real duplicates. Pairs are only surfaced above the threshold an
+   * analysis ran at, so thresholds below that have nothing to say.
+   */
+  async precisionReport(
+    indexName: string,
+    namespace: string,
+    options: { mode?: 'metadata' | 'vector'; thresholds?: number[]; targetPrecision?: number } = {}
+  ): Promise<PrecisionReport> {
+    const mode = options.mode || 'metadata';
+    const thresholds = [...(options.thresholds || DEFAULT_PRECISION_THRESHOLDS)].sort((a, b) => a - b);
+    const targetPrecision = options.targetPrecision ?? 0.95;
+
+    if (thresholds.some(threshold => !Number.isFinite(threshold) || threshold < 0 || threshold > 100)) {
+      throw new ValidationError('thresholds must be numbers between 0 and 100');
+    }
+    if (!Number.isFinite(targetPrecision) || targetPrecision <= 0 || targetPrecision > 1) {
+      throw new ValidationError('targetPrecision must be between 0 and 1');
+    }
+
+    const scored = (await this.listVerdicts(indexName, namespace)).filter(verdict =>
+      verdict.score !== undefined && (verdict.similarity === 'vector') === (mode === 'vector')
+    );
+
+    const tally = (verdicts: PairVerdict[]) => {
+      const duplicates = verdicts.filter(verdict => verdict.verdict === 'duplicate').length;
+      return {
+        reviewedPairs: verdicts.length,
+        duplicates,
+        notDuplicates: verdicts.length - duplicates,
+        precision: verdicts.length > 0 ? Math.round((duplicates / verdicts.length) * 1000) / 1000 : null
+      };
+    };
+
+    // A verdict only speaks for thresholds at or above the one its analysis ran at - below that,
+    // the pairs the analysis never surfaced are missing, and precision would look better than it is
+    const byThreshold = thresholds.map(threshold => ({
+      threshold,
+      ...tally(scored.filter(verdict =>
+        verdict.threshold !== undefined && threshold >= verdict.threshold && verdict.score! >= threshold))
+    }));
+
+    const analyses = new Map<string, PairVerdict[]>();
+    for (const verdict of scored) {
+      if (!verdict.analysisId) continue;
+      analyses.set(verdict.analysisId, [...(analyses.get(verdict.analysisId) || []), verdict]);
+    }
+
+    const suggested = byThreshold.find(bucket => bucket.precision !== null && bucket.precision >= targetPrecision);
+    const overall = tally(scored);
+
+    return {
+      indexName,
+      namespace: (namespace || '(no namespace)'),
+      mode,
+      reviewedPairs: overall.reviewedPairs,
+      duplicates: overall.duplicates,
+      notDuplicates: overall.notDuplicates,
+      byThreshold,
+      byAnalysis: Array.from(analyses.entries()).map(([analysisId, verdicts]) => ({
+        analysisId,
+        threshold: verdicts[0].threshold,
+        similarity: verdicts[0].similarity,
+        ...tally(verdicts)
+      })),
+      targetPrecision,
+      suggestedThreshold: suggested ? suggested.threshold : null
+    };
+  }
+
+  // Same file naming as validation rules - namespaces don't always make good file names
+  private verdictsPath(indexName: string, namespace: string): string {
+    const file = namespace ? `ns-${Buffer.from(namespace).toString('base64url')}.json` : '_default.json';
+    return dataPath('duplicate-verdicts', indexName, file);
+  }
+}
+
+export default new DuplicateVerdictService();
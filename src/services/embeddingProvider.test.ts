@@ -0,0 +1,47 @@
+import { HashingEmbeddingProvider, HttpEmbeddingProvider } from './embeddingProvider';
+import { HttpError } from '../utils/errors';
+
+describe('HashingEmbeddingProvider', () => {
+  it('gives the same text the same unit vector', async () => {
+    const provider = new HashingEmbeddingProvider(64);
+    const [a, b] = await provider.embed(['Pinecone index manager', 'Pinecone index manager']);
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(64);
+    expect(Math.sqrt(a.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+  });
+});
+
+describe('HttpEmbeddingProvider', () => {
+  const realFetch = global.fetch;
+  afterEach(() => { global.fetch = realFetch; });
+
+  const provider = (timeoutMs?: number) => new HttpEmbeddingProvider(2, { baseUrl: 'http://embedder/v1/', model: 'm', timeoutMs });
+
+  it('orders embeddings by index', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response(JSON.stringify({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }]
+    })));
+
+    await expect(provider().embed(['a', 'b'])).resolves.toEqual([[1, 0], [0, 1]]);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('http://embedder/v1/embeddings');
+  });
+
+  it('turns a hung endpoint into a 504', async () => {
+    global.fetch = jest.fn((_url: any, init: any) => new Promise<Response>((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(init.signal.reason));
+    }));
+
+    const failure = provider(20).embed(['a']);
+    await expect(failure).rejects.toBeInstanceOf(HttpError);
+    await expect(failure).rejects.toMatchObject({ status: 504 });
+  });
+
+  it('reports upstream failures as 502', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response('overloaded', { status: 503 }));
+    await expect(provider().embed(['a'])).rejects.toMatchObject({ status: 502, message: expect.stringContaining('503: overloaded') });
+
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+    await expect(provider().embed(['a'])).rejects.toMatchObject({ status: 502 });
+  });
+});
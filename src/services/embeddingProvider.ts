@@ -0,0 +1,159 @@
+// Embedding providers for free-text search
+// Pick one with EMBEDDING_PROVIDER: "hashing" (offline, deterministic) or "http" (any OpenAI-compatible endpoint)
+
+import { createHash } from 'crypto';
+import { HttpError, ValidationError } from '../utils/errors';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Feature-hashing embedder: words and character trigrams hashed into a fixed number of buckets.
+ * Useless for real semantic search, perfect for offline testing - same text, same vector, every time.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+
+  constructor(readonly dimension: number) {
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new ValidationError(`Hashing embedder needs a positive integer dimension, got ${dimension}`);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+
+    for (const feature of this.features(text)) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimension;
+      const sign = digest[4] & 1 ? 1 : -1; // Signed hashing keeps collisions from only ever adding up
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private features(text: string): string[] {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const features = words.map(word => `w:${word}`);
+
+    for (const word of words) {
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`t:${padded.slice(i, i + 3)}`);
+      }
+    }
+
+    return features;
+  }
+}
+
+/**
+ * Calls an OpenAI-compatible /embeddings endpoint (OpenAI, Azure-style proxies, vLLM, Ollama, ...)
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'http';
+
+  constructor(
+    readonly dimension: number,
+    private readonly config: { baseUrl: string; model: string; apiKey?: string; timeoutMs?: number }
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/embeddings`;
+    const timeoutMs = this.config.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: this.config.model, input: texts }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      // A DOMException, which isn't always an Error subclass
+      if ((error as { name?: string } | null)?.name === 'TimeoutError') {
+        throw new HttpError(504, `Embedding endpoint did not answer within ${timeoutMs}ms`);
+      }
+      throw new HttpError(502, `Embedding endpoint unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new HttpError(502, `Embedding endpoint returned ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const payload: any = await response.json();
+    if (!Array.isArray(payload?.data)) {
+      throw new Error('Embedding endpoint returned an unexpected payload (no data array)');
+    }
+
+    // The API may return items out of order, the index field is authoritative
+    const embeddings = [...payload.data]
+      .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item: any) => item.embedding as number[]);
+
+    for (const embedding of embeddings) {
+      if (!Array.isArray(embedding) || embedding.length !== this.dimension) {
+        throw new Error(`Embedding endpoint returned ${embedding?.length} dimensions, expected ${this.dimension}`);
+      }
+    }
+
+    return embeddings;
+  }
+}
+
+/**
+ * Build the configured provider. The hashing provider falls back to the index's own dimension,
+ * so offline testing works against any index without extra configuration.
+ */
+export function createEmbeddingProvider(indexDimension: number): EmbeddingProvider {
+  const providerName = (process.env.EMBEDDING_PROVIDER || 'hashing').toLowerCase();
+  const configuredDimension = process.env.EMBEDDING_DIMENSION ? parseInt(process.env.EMBEDDING_DIMENSION) : undefined;
+  const timeoutMs = process.env.EMBEDDING_TIMEOUT_MS ? parseInt(process.env.EMBEDDING_TIMEOUT_MS) : undefined;
+
+  if (providerName === 'hashing') {
+    return new HashingEmbeddingProvider(configuredDimension || indexDimension);
+  }
+
+  if (providerName === 'http') {
+    const baseUrl = process.env.EMBEDDING_API_URL;
+    const model = process.env.EMBEDDING_MODEL;
+
+    if (!baseUrl || !model || !configuredDimension) {
+      throw new Error('The http embedding provider needs EMBEDDING_API_URL, EMBEDDING_MODEL and EMBEDDING_DIMENSION. Read the docs, then try again.');
+    }
+
+    return new HttpEmbeddingProvider(configuredDimension, {
+      baseUrl,
+      model,
+      apiKey: process.env.EMBEDDING_API_KEY,
+      timeoutMs
+    });
+  }
+
+  throw new Error(`Unknown EMBEDDING_PROVIDER "${providerName}". Use "hashing" or "http".`);
+}
+
+// Refuse to query an index with vectors of the wrong size - Pinecone would reject it anyway, less politely
+export function assertDimensionMatches(provider: EmbeddingProvider, indexName: string, indexDimension: number): void {
+  if (provider.dimension !== indexDimension) {
+    throw new ValidationError(
+      `Embedding provider "${provider.name}" produces ${provider.dimension}-dimensional vectors but index "${indexName}" expects ${indexDimension}`
+    );
+  }
+}
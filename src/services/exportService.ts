@@ -0,0 +1,225 @@
+// Export service - streams documents out as CSV, JSONL or XLSX while the namespace is scanned
+// Nothing is buffered beyond one scan batch, so 10k+ record exports don't eat the server
+// Spreadsheets need their header before the first row, so without explicit columns they scan twice: once for keys, once for rows
+
+import { Writable } from 'stream';
+import { createArrayCsvStringifier } from 'csv-writer';
+import ExcelJS from 'exceljs';
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import pineconeService, { DocumentRecord } from './pineconeService';
+import { MetadataFilter } from '../utils/metadataFilter';
+import { ValidationError } from '../utils/errors';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx'];
+
+export interface ExportOptions {
+  namespace?: string;
+  filter?: MetadataFilter;
+  columns?: string[]; // Metadata keys to export; defaults to every key in the namespace (JSONL: full metadata)
+  includeValues?: boolean; // JSONL only - spreadsheets and 1536 floats don't mix
+  listSeparator?: string;
+}
+
+export interface ExportResult {
+  format: ExportFormat;
+  exportedDocuments: number;
+  scannedDocuments: number;
+  columns: string[];
+  droppedKeys: string[]; // Metadata keys that were in the data but not in the explicit columns
+}
+
+// Interface for the format-specific writers so the scan loop doesn't care what it's producing
+interface RowSink {
+  start(columns: string[]): Promise<void>;
+  write(record: DocumentRecord): Promise<void>;
+  finish(): Promise<void>;
+}
+
+const EXCEL_CELL_LIMIT = 32767; // Excel refuses longer cell values
+
+export class ExportService {
+
+  /**
+   * Stream every matching document in the namespace to the output in the requested format
+   */
+  async exportDocuments(
+    indexName: string,
+    format: ExportFormat,
+    output: Writable,
+    options: ExportOptions = {}
+  ): Promise<ExportResult> {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new ValidationError(`Unsupported export format "${format}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const listSeparator = options.listSeparator ?? '; ';
+    const sink = this.createSink(format, output, listSeparator, options.includeValues === true);
+    const explicitColumns = options.columns && options.columns.length > 0 ? options.columns : undefined;
+    const dropped = new Set<string>();
+    let exportedDocuments = 0;
+    let scannedDocuments = 0;
+
+    console.log(`📤 Exporting ${indexName}:${(options.namespace || '(no namespace)')} as ${format}`);
+
+    // JSONL rows carry their own keys; only spreadsheets need every column up front
+    const columns = explicitColumns
+      || (format === 'jsonl' ? undefined : await this.discoverColumns(indexName, options, output));
+
+    // Empty exports still get a header row (or an empty sheet) rather than a zero-byte file
+    await sink.start(columns || []);
+
+    for await (const batch of pineconeService.scanNamespace(indexName, {
+      namespace: options.namespace,
+      filter: options.filter,
+      includeValues: format === 'jsonl' && options.includeValues === true
+    })) {
+      scannedDocuments = batch.scanned;
+
+      // Client went away - no point scanning the rest of the namespace for nobody
+      if (output.destroyed) break;
+
+      for (const record of batch.records) {
+        if (explicitColumns) {
+          Object.keys(record.metadata).forEach(key => {
+            if (!explicitColumns.includes(key)) dropped.add(key);
+          });
+        }
+        await sink.write(columns ? this.projectRecord(record, columns) : record);
+        exportedDocuments++;
+      }
+    }
+
+    await sink.finish();
+
+    const droppedKeys = Array.from(dropped);
+    if (droppedKeys.length > 0) {
+      console.warn(`⚠️ Export left out metadata keys not in the requested columns: ${droppedKeys.join(', ')}`);
+    }
+
+    console.log(`Export complete: ${exportedDocuments} documents written after scanning ${scannedDocuments}`);
+    return { format, exportedDocuments, scannedDocuments, columns: columns || [], droppedKeys };
+  }
+
+  // Keys-only pass over the whole namespace - a key that first shows up in record 9,000 still gets a column.
+  // Column order follows first appearance, which tends to match the ingestion pipeline's field order.
+  private async discoverColumns(indexName: string, options: ExportOptions, output: Writable): Promise<string[]> {
+    const seen = new Set<string>();
+
+    for await (const batch of pineconeService.scanNamespace(indexName, {
+      namespace: options.namespace,
+      filter: options.filter,
+      includeValues: false
+    })) {
+      if (output.destroyed) break;
+      batch.records.forEach(record => Object.keys(record.metadata).forEach(key => seen.add(key)));
+    }
+
+    return Array.from(seen);
+  }
+
+  private projectRecord(record: DocumentRecord, columns: string[]): DocumentRecord {
+    const metadata: RecordMetadata = {};
+    for (const column of columns) {
+      if (column in record.metadata) metadata[column] = record.metadata[column];
+    }
+    return { ...record, metadata };
+  }
+
+  private createSink(format: ExportFormat, output: Writable, listSeparator: string, includeValues: boolean): RowSink {
+    const flatten = (value: unknown): string | number | boolean => {
+      if (value === undefined || value === null) return '';
+      if (Array.isArray(value)) return value.join(listSeparator);
+      if (typeof value === 'object') return JSON.stringify(value);
+      return value as string | number | boolean;
+    };
+
+    if (format === 'csv') {
+      let stringifier: ReturnType<typeof createArrayCsvStringifier>;
+      let columns: string[] = [];
+
+      return {
+        start: async (cols) => {
+          columns = cols;
+          stringifier = createArrayCsvStringifier({ header: ['id', ...columns] });
+          await this.writeChunk(output, stringifier.getHeaderString() || '');
+        },
+        write: async (record) => {
+          const row = [record.id, ...columns.map(column => flatten(record.metadata[column]))];
+          await this.writeChunk(output, stringifier.stringifyRecords([row]));
+        },
+        finish: async () => this.endStream(output)
+      };
+    }
+
+    if (format === 'jsonl') {
+      return {
+        start: async () => undefined,
+        write: async (record) => {
+          const line = {
+            id: record.id,
+            metadata: record.metadata,
+            ...(includeValues ? { values: record.values } : {}),
+            ...(includeValues && record.sparseValues ? { sparseValues: record.sparseValues } : {})
+          };
+          await this.writeChunk(output, JSON.stringify(line) + '\n');
+        },
+        finish: async () => this.endStream(output)
+      };
+    }
+
+    // xlsx: ExcelJS's streaming writer zips rows out as they're committed, and its zip stream pipes into output -
+    // so a full output is the signal to stop committing rows, or the zip buffers them all
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet('Documents');
+    let columns: string[] = [];
+
+    const toCell = (value: unknown) => {
+      const flattened = flatten(value);
+      return typeof flattened === 'string' ? flattened.slice(0, EXCEL_CELL_LIMIT) : flattened;
+    };
+
+    return {
+      start: async (cols) => {
+        columns = cols;
+        worksheet.addRow(['id', ...columns]).commit();
+      },
+      write: async (record) => {
+        worksheet.addRow([record.id, ...columns.map(column => toCell(record.metadata[column]))]).commit();
+        if (output.writableNeedDrain) await this.waitForDrain(output);
+      },
+      finish: async () => {
+        worksheet.commit();
+        await workbook.commit();
+      }
+    };
+  }
+
+  // Respect backpressure so a slow client doesn't make us buffer the whole namespace anyway
+  private async writeChunk(output: Writable, chunk: string): Promise<void> {
+    if (!chunk || output.destroyed) return;
+    if (!output.write(chunk)) await this.waitForDrain(output);
+  }
+
+  // Whichever fires first wins; the other listener goes too, or every slow chunk leaves one behind
+  private waitForDrain(output: Writable): Promise<void> {
+    if (output.destroyed) return Promise.resolve();
+    return new Promise<void>(resolve => {
+      const done = () => {
+        output.off('drain', done);
+        output.off('close', done);
+        resolve();
+      };
+      output.on('drain', done);
+      output.on('close', done);
+    });
+  }
+
+  private async endStream(output: Writable): Promise<void> {
+    if (output.destroyed || output.writableEnded) return;
+    await new Promise<void>(resolve => output.end(resolve));
+  }
+}
+
+export default new ExportService();
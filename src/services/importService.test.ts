@@ -0,0 +1,97 @@
+import { Readable } from 'stream';
+import pineconeService from './pineconeService';
+import importService from './importService';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('./pineconeService', () => ({
+  __esModule: true,
+  default: {
+    getIndexDescription: jest.fn(),
+    upsertRecords: jest.fn()
+  }
+}));
+
+const mocked = pineconeService as jest.Mocked<typeof pineconeService>;
+
+// Chunks split mid-line, the way a request body arrives
+const upload = (text: string) => Readable.from(text.match(/[\s\S]{1,7}/g) || []);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mocked.getIndexDescription.mockResolvedValue({ dimension: 2 } as any);
+  mocked.upsertRecords.mockImplementation(async (_index, records) => ({ upserted: records.length, batches: 1, failedBatches: [] }));
+});
+
+describe('ImportService.importRecords', () => {
+  it('reports bad JSONL rows by line number and upserts the rest', async () => {
+    const report = await importService.importRecords('docs', upload([
+      '{"id":"a","values":[1,2],"metadata":{"lang":"en"}}',
+      '',
+      '{"id":"b","values":[1]}',
+      'not json',
+      '{"id":"a","values":[3,4]}',
+      '{"id":"c","values":[0,1]}'
+    ].join('\r\n')), 'jsonl', { namespace: 'ns' });
+
+    expect(report).toMatchObject({ totalRows: 5, validRows: 2, upsertedRows: 2, failedRows: 3, batches: 1 });
+    expect(report.errors.map(error => [error.row, error.error])).toEqual([
+      [3, 'values has 1 dimensions, index expects 2'],
+      [4, expect.stringMatching(/^invalid JSON/)],
+      [5, 'duplicate id, already used on row 1']
+    ]);
+    expect(mocked.upsertRecords).toHaveBeenCalledWith('docs', [
+      { id: 'a', values: [1, 2], metadata: { lang: 'en' } },
+      { id: 'c', values: [0, 1] }
+    ], 'ns');
+  });
+
+  it('upserts as it goes instead of holding the whole file', async () => {
+    const lines = Array.from({ length: 2500 }, (_, i) => JSON.stringify({ id: `doc-${i}`, values: [i, 1] }));
+    const report = await importService.importRecords('docs', Readable.from(lines.map(line => line + '\n')), 'jsonl');
+
+    expect(mocked.upsertRecords.mock.calls.map(call => call[1].length)).toEqual([1000, 1000, 500]);
+    expect(report).toMatchObject({ totalRows: 2500, upsertedRows: 2500, batches: 3 });
+  });
+
+  it('places failed upsert batches back on their rows', async () => {
+    mocked.upsertRecords.mockResolvedValue({ upserted: 0, batches: 1, failedBatches: [{ ids: ['b'], error: 'quota' }] });
+    const report = await importService.importRecords('docs', upload('{"id":"a","values":[1,2]}\n{"id":"b","values":[1,2]}\n'), 'jsonl');
+
+    expect(report.errors).toEqual([{ row: 2, id: 'b', error: 'upsert failed: quota' }]);
+  });
+
+  it('parses CSV columns into values and coerced metadata', async () => {
+    const report = await importService.importRecords('docs', upload([
+      'id,values,metadata.views,public,tags,title',
+      'a,0.5;1,12,true,"[""x"",""y""]",Hello',
+      'b,"[1,2]",,false,,"quoted, with comma"'
+    ].join('\n')), 'csv');
+
+    expect(report).toMatchObject({ totalRows: 2, validRows: 2, upsertedRows: 2, failedRows: 0 });
+    expect(mocked.upsertRecords.mock.calls[0][1]).toEqual([
+      { id: 'a', values: [0.5, 1], metadata: { views: 12, public: true, tags: ['x', 'y'], title: 'Hello' } },
+      { id: 'b', values: [1, 2], metadata: { public: false, title: 'quoted, with comma' } }
+    ]);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const report = await importService.importRecords('docs', upload('{"id":"a","values":[1,2]}'), 'jsonl', { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, validRows: 1, upsertedRows: 0, batches: 0 });
+    expect(mocked.upsertRecords).not.toHaveBeenCalled();
+  });
+
+  it('reports malformed CSV records as row errors and keeps going', async () => {
+    const report = await importService.importRecords('docs', upload('id,values\na,1;2\nb,1;2,extra\nc,1;2\nd,"1;2\n'), 'csv');
+
+    expect(report).toMatchObject({ totalRows: 4, upsertedRows: 2 });
+    expect(report.errors.map(error => [error.row, error.error])).toEqual([
+      [3, expect.stringMatching(/^Could not parse CSV: Invalid Record Length/)],
+      [5, expect.stringMatching(/^Could not parse CSV: Quote Not Closed/)]
+    ]);
+  });
+
+  it('refuses an empty upload', async () => {
+    await expect(importService.importRecords('docs', upload('\n\n'), 'jsonl')).rejects.toThrow(ValidationError);
+  });
+});
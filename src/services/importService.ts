@@ -0,0 +1,302 @@
+// Import service - bulk upserts from JSONL or CSV files, with a per-row error report
+// Dry runs validate everything and write nothing, for the cautious among us
+// The upload is parsed as it streams in and upserted every FLUSH_RECORDS rows, so file size doesn't decide memory use
+
+import { Readable } from 'stream';
+import { createInterface } from 'readline';
+import { parse } from 'csv-parse';
+import { PineconeRecord, RecordMetadata, RecordSparseValues } from '@pinecone-database/pinecone';
+import pineconeService from './pineconeService';
+import { ValidationError } from '../utils/errors';
+
+export type ImportFormat = 'jsonl' | 'csv';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['jsonl', 'csv'];
+
+export interface ImportOptions {
+  namespace?: string;
+  dryRun?: boolean;
+}
+
+export interface ImportRowError {
+  row: number; // 1-based line number in the uploaded file
+  id?: string;
+  error: string;
+}
+
+export interface ImportReport {
+  indexName: string;
+  namespace: string;
+  format: ImportFormat;
+  dryRun: boolean;
+  dimension: number;
+  totalRows: number;
+  validRows: number;
+  upsertedRows: number;
+  failedRows: number;
+  batches: number;
+  errors: ImportRowError[];
+}
+
+interface ParsedRow {
+  row: number;
+  raw?: any;
+  error?: string;
+}
+
+const MAX_ID_LENGTH = 512;
+const MAX_METADATA_BYTES = 40 * 1024; // Pinecone's per-record metadata limit
+const FLUSH_RECORDS = 1000; // upsertRecords splits these further by request size
+
+export class ImportService {
+
+  /**
+   * Validate and (unless dryRun) upsert every row of the uploaded file
+   */
+  async importRecords(
+    indexName: string,
+    input: Readable,
+    format: ImportFormat,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    if (!IMPORT_FORMATS.includes(format)) {
+      throw new ValidationError(`Unsupported import format "${format}". Use one of: ${IMPORT_FORMATS.join(', ')}`);
+    }
+
+    const description = await pineconeService.getIndexDescription(indexName);
+    const dimension = description.dimension;
+    const dryRun = options.dryRun === true;
+
+    console.log(`📥 ${dryRun ? 'Validating' : 'Importing'} ${format} upload into ${indexName}:${(options.namespace || '(no namespace)')}`);
+
+    const errors: ImportRowError[] = [];
+    const rowById = new Map<string, number>(); // IDs only - enough to catch repeats and to place failed batches
+    let pending: PineconeRecord[] = [];
+    let totalRows = 0;
+    let validRows = 0;
+    let upsertedRows = 0;
+    let batches = 0;
+
+    const flush = async () => {
+      const records = pending;
+      pending = [];
+      if (dryRun || records.length === 0) return;
+
+      const result = await pineconeService.upsertRecords(indexName, records, options.namespace);
+      upsertedRows += result.upserted;
+      batches += result.batches;
+
+      for (const failed of result.failedBatches) {
+        for (const id of failed.ids) {
+          errors.push({ row: rowById.get(id)!, id, error: `upsert failed: ${failed.error}` });
+        }
+      }
+    };
+
+    const rows = format === 'jsonl' ? this.parseJsonl(input) : this.parseCsv(input);
+
+    for await (const parsed of rows) {
+      totalRows++;
+
+      if (parsed.error) {
+        errors.push({ row: parsed.row, error: parsed.error });
+        continue;
+      }
+
+      try {
+        const record = this.toRecord(parsed.raw, dimension);
+
+        // Same ID twice in one file: Pinecone would silently keep the last one, we'd rather say so
+        const previousRow = rowById.get(record.id);
+        if (previousRow !== undefined) {
+          throw new Error(`duplicate id, already used on row ${previousRow}`);
+        }
+
+        rowById.set(record.id, parsed.row);
+        pending.push(record);
+        validRows++;
+      } catch (error: any) {
+        errors.push({ row: parsed.row, id: typeof parsed.raw?.id === 'string' ? parsed.raw.id : undefined, error: error.message });
+      }
+
+      if (pending.length >= FLUSH_RECORDS) await flush();
+    }
+
+    await flush();
+
+    if (totalRows === 0) {
+      throw new ValidationError('The uploaded file is empty. Nothing to import, nothing to break.');
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    const report: ImportReport = {
+      indexName,
+      namespace: (options.namespace || '(no namespace)'),
+      format,
+      dryRun,
+      dimension,
+      totalRows,
+      validRows,
+      upsertedRows,
+      failedRows: errors.length,
+      batches,
+      errors
+    };
+
+    console.log(`Import ${dryRun ? 'dry run' : 'run'} complete: ${validRows} valid, ${upsertedRows} upserted, ${errors.length} failed`);
+    return report;
+  }
+
+  private async *parseJsonl(input: Readable): AsyncGenerator<ParsedRow> {
+    let row = 0;
+
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      row++;
+      if (!line.trim()) continue;
+      try {
+        yield { row, raw: JSON.parse(line) };
+      } catch (error: any) {
+        yield { row, error: `invalid JSON: ${error.message}` };
+      }
+    }
+  }
+
+  /**
+   * CSV layout: an "id" column, a "values" column (JSON array or ;-separated numbers),
+   * optional "sparseValues" (JSON), and every other column becomes metadata ("metadata." prefix optional).
+   * Malformed records are skipped by the parser and reported as row errors, like any other bad row.
+   */
+  private async *parseCsv(input: Readable): AsyncGenerator<ParsedRow> {
+    const parser = input.pipe(parse({ columns: true, skip_empty_lines: true, bom: true, trim: true, info: true, skip_records_with_error: true }));
+    input.on('error', error => parser.destroy(error));
+
+    const skipped: ParsedRow[] = [];
+    parser.on('skip', (error: any) => skipped.push({ row: error.lines, error: `Could not parse CSV: ${error.message}` }));
+
+    for await (const { record, info } of parser as AsyncIterable<{ record: Record<string, string>; info: { lines: number } }>) {
+      yield* skipped.splice(0);
+      yield this.csvRow(record, info.lines);
+    }
+    yield* skipped.splice(0);
+  }
+
+  private csvRow(record: Record<string, string>, row: number): ParsedRow {
+    const raw: any = { metadata: {} };
+
+    try {
+      for (const [column, cell] of Object.entries(record)) {
+        if (column === 'id') {
+          raw.id = cell;
+        } else if (column === 'values') {
+          raw.values = this.parseCsvVector(cell);
+        } else if (column === 'sparseValues') {
+          raw.sparseValues = cell ? JSON.parse(cell) : undefined;
+        } else if (cell !== '') {
+          raw.metadata[column.replace(/^metadata\./, '')] = this.coerceCsvValue(cell);
+        }
+      }
+    } catch (error: any) {
+      return { row, error: `invalid sparseValues JSON: ${error.message}` };
+    }
+
+    return { row, raw };
+  }
+
+  private parseCsvVector(cell: string): unknown {
+    const trimmed = cell.trim();
+    if (trimmed.startsWith('[')) {
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return trimmed; // Let record validation explain what's wrong with it
+      }
+    }
+    return trimmed ? trimmed.split(/[;\s]+/).filter(Boolean).map(Number) : [];
+  }
+
+  // CSV only has strings, so make a reasonable guess: numbers, booleans and JSON string lists
+  private coerceCsvValue(cell: string): RecordMetadata[string] {
+    if (/^-?\d+(\.\d+)?$/.test(cell)) return Number(cell);
+    if (cell === 'true' || cell === 'false') return cell === 'true';
+    if (cell.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(cell);
+        if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) return parsed;
+      } catch {
+        // Not a list after all, keep the string
+      }
+    }
+    return cell;
+  }
+
+  private toRecord(raw: any, dimension: number): PineconeRecord {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error('row must be an object');
+    }
+
+    const { id, values, sparseValues, metadata } = raw;
+
+    if (typeof id !== 'string' || id.length === 0) throw new Error('id must be a non-empty string');
+    if (id.length > MAX_ID_LENGTH) throw new Error(`id is longer than ${MAX_ID_LENGTH} characters`);
+
+    if (!Array.isArray(values) || !values.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      throw new Error('values must be an array of finite numbers');
+    }
+    if (values.length !== dimension) {
+      throw new Error(`values has ${values.length} dimensions, index expects ${dimension}`);
+    }
+
+    const record: PineconeRecord = { id, values };
+
+    if (sparseValues !== undefined) {
+      record.sparseValues = this.validateSparseValues(sparseValues);
+    }
+
+    if (metadata !== undefined) {
+      record.metadata = this.validateMetadata(metadata);
+    }
+
+    return record;
+  }
+
+  private validateSparseValues(sparseValues: any): RecordSparseValues {
+    const { indices, values } = sparseValues || {};
+
+    if (!Array.isArray(indices) || !indices.every(index => Number.isInteger(index) && index >= 0)) {
+      throw new Error('sparseValues.indices must be an array of non-negative integers');
+    }
+    if (!Array.isArray(values) || !values.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      throw new Error('sparseValues.values must be an array of finite numbers');
+    }
+    if (indices.length !== values.length) {
+      throw new Error('sparseValues.indices and sparseValues.values must have the same length');
+    }
+
+    return { indices, values };
+  }
+
+  private validateMetadata(metadata: any): RecordMetadata {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      throw new Error('metadata must be an object');
+    }
+
+    for (const [key, value] of Object.entries(metadata)) {
+      const valid = typeof value === 'string' || typeof value === 'boolean' ||
+        (typeof value === 'number' && Number.isFinite(value)) ||
+        (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+      if (!valid) {
+        throw new Error(`metadata.${key} must be a string, number, boolean or list of strings`);
+      }
+    }
+
+    if (Buffer.byteLength(JSON.stringify(metadata)) > MAX_METADATA_BYTES) {
+      throw new Error('metadata exceeds the 40KB per-record limit');
+    }
+
+    return metadata as RecordMetadata;
+  }
+}
+
+export default new ImportService();
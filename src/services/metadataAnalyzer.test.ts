@@ -0,0 +1,77 @@
+import pineconeService from './pineconeService';
+import metadataAnalyzer from './metadataAnalyzer';
+
+jest.mock('./pineconeService', () => ({
+  __esModule: true,
+  default: {
+    countNamespaceRecords: jest.fn(),
+    scanNamespace: jest.fn()
+  }
+}));
+
+jest.mock('./snapshotService', () => ({ __esModule: true, default: {} }));
+
+const mocked = pineconeService as jest.Mocked<typeof pineconeService>;
+
+const serve = (metadata: Array<Record<string, any>>, batchSize: number = 100) => {
+  mocked.countNamespaceRecords.mockResolvedValue(metadata.length);
+  mocked.scanNamespace.mockImplementation(async function* () {
+    for (let start = 0; start < metadata.length; start += batchSize) {
+      yield {
+        records: metadata.slice(start, start + batchSize).map((entry, i) => ({ id: `doc-${start + i}`, metadata: entry }))
+      } as any;
+    }
+  } as any);
+};
+
+describe('MetadataAnalyzer.analyzeNamespaceMetadata', () => {
+  it('profiles presence, types, common values and key counts', async () => {
+    serve([
+      { lang: 'en', views: 3, tags: ['a'] },
+      { lang: 'en', views: 4.5 },
+      { lang: 'fr' },
+      { lang: '' }
+    ]);
+
+    const profile = await metadataAnalyzer.analyzeNamespaceMetadata('docs', 'ns', 0);
+    const lang = profile.keyProfiles.find(key => key.keyName === 'lang')!;
+    const views = profile.keyProfiles.find(key => key.keyName === 'views')!;
+
+    expect(profile.analyzedDocuments).toBe(4);
+    expect(profile.analysisMetrics).toMatchObject({ avgKeysPerDocument: 1.75, minKeysPerDocument: 1, maxKeysPerDocument: 3, totalUniqueKeys: 3 });
+    expect(lang.presence).toBe(100);
+    expect(lang.uniqueValueCount).toBe(3);
+    expect(lang.mostCommonValues[0]).toEqual({ value: 'en', count: 2, percentage: 50 });
+    expect(lang.dataTypeAnalysis.statistics).toMatchObject({ totalCount: 4, nullCount: 1, uniqueCount: 2, minLength: 2, maxLength: 2 });
+    expect(views.valueTypes).toEqual({ integer: 1, number: 1 });
+    expect(views.documentIds).toEqual(['doc-0', 'doc-1']);
+  });
+
+  it('stops at maxDocuments', async () => {
+    serve(Array.from({ length: 250 }, (_, i) => ({ n: i })));
+
+    const profile = await metadataAnalyzer.analyzeNamespaceMetadata('docs', '', 120);
+    expect(profile.analyzedDocuments).toBe(120);
+    expect(profile.totalDocuments).toBe(250);
+  });
+
+  it('caps what it keeps per key on a large namespace', async () => {
+    serve(Array.from({ length: 30000 }, (_, i) => ({ id: `value-${i}`, kind: i % 3 === 0 ? 'a' : 'b' })), 1000);
+
+    const profile = await metadataAnalyzer.analyzeNamespaceMetadata('docs', '', 0);
+    const id = profile.keyProfiles.find(key => key.keyName === 'id')!;
+    const kind = profile.keyProfiles.find(key => key.keyName === 'kind')!;
+
+    expect(id.documentIds).toHaveLength(1000);
+    expect(id.sampleValues).toHaveLength(10);
+    expect(id.uniqueValueCount).toBe(30000); // Estimated past the hash cap, exact here because every value is new
+    expect(id.dataTypeAnalysis.statistics.uniqueness).toBe(100);
+    expect(kind.uniqueValueCount).toBe(2);
+    expect(kind.mostCommonValues.map(entry => [entry.value, entry.count])).toEqual([['b', 20000], ['a', 10000]]);
+  });
+
+  it('refuses an empty namespace', async () => {
+    serve([]);
+    await expect(metadataAnalyzer.analyzeNamespaceMetadata('docs', 'empty', 0)).rejects.toThrow(/No documents found/);
+  });
+});
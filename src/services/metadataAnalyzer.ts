@@ -2,7 +2,12 @@
 // Because Jean-Claude delivers enterprise-grade analytics
 
 import { DataTypeDetector, DataTypeAnalysis } from '../utils/dataTypeDetector';
+import { hash53 } from '../utils/blocking';
 import pineconeService from './pineconeService';
+import snapshotService from './snapshotService';
+import { NotFoundError } from '../utils/errors';
+
+export type MetadataValueType = 'string' | 'integer' | 'number' | 'boolean' | 'list';
 
 export interface MetadataKeyProfile {
   keyName: string;
@@ -11,7 +16,8 @@ export interface MetadataKeyProfile {
   sampleValues: any[];
   mostCommonValues: Array<{ value: any; count: number; percentage: number }>;
   uniqueValueCount: number;
-  documentIds: string[]; // IDs of documents containing this key
+  valueTypes: Partial<Record<MetadataValueType, number>>; // Actual JSON types seen, before DataTypeDetector stringifies them
+  documentIds: string[]; // IDs of documents containing this key, the first MAX_DOCUMENT_IDS of them
 }
 
 export interface MetadataProfile {
@@ -30,76 +36,102 @@ export interface MetadataProfile {
   };
 }
 
+// Per-key caps, so a whole-namespace profile costs the same memory at 10k records as at 10M
+const MAX_DOCUMENT_IDS = 1000;
+const MAX_SAMPLES = 100; // Reservoir for sampleValues and type detection
+const MAX_COUNTED_VALUES = 1000; // Values past this only count if they're already being counted
+const MAX_DISTINCT_HASHES = 20000; // Past this the distinct count is extrapolated
+
+interface KeyAccumulator {
+  count: number;
+  nullCount: number;
+  minLength: number;
+  maxLength: number;
+  totalLength: number;
+  valueTypes: Partial<Record<MetadataValueType, number>>;
+  valueCounts: Map<any, number>;
+  distinctHashes: Set<number>;
+  emptyValues: Set<any>; // null, undefined and '' - at most three, counted apart from distinctHashes
+  nonNullAtSaturation?: number;
+  samples: any[];
+  documentIds: string[];
+}
+
 export class MetadataAnalyzer {
 
+  /**
+   * Profile metadata across a namespace. maxDocuments of 0 scans the whole thing.
+   */
   async analyzeNamespaceMetadata(indexName: string, namespace: string = '', maxDocuments: number = 100): Promise<MetadataProfile> {
     console.log(`Starting metadata analysis for ${indexName}:${(namespace || '(no namespace)')}`);
 
-    // Fetch documents from the namespace
-    const documents = await pineconeService.queryDocuments(indexName, {
-      namespace,
-      topK: maxDocuments, // Use the requested sample size
-      includeMetadata: true,
-      random: false // Get comprehensive sample, not random
-    });
-
-    console.log(`Analyzing metadata for ${documents.length} documents`);
+    const totalDocuments = await pineconeService.countNamespaceRecords(indexName, namespace);
 
-    if (documents.length === 0) {
-      throw new Error(`No documents found in namespace "${namespace}"`);
-    }
+    // Fold every key's values into running aggregates as the namespace streams past
+    const accumulators = new Map<string, KeyAccumulator>();
+    let analyzedDocuments = 0;
+    let totalKeys = 0;
+    let minKeysPerDocument = Infinity;
+    let maxKeysPerDocument = 0;
 
-    // Collect all metadata keys and their values
-    const keyValueMap = new Map<string, Array<{ value: any; docId: string }>>();
-    const documentKeyCounts = new Map<string, number>();
+    scan: for await (const batch of pineconeService.scanNamespace(indexName, { namespace })) {
+      for (const doc of batch.records) {
+        if (maxDocuments > 0 && analyzedDocuments >= maxDocuments) break scan;
+        analyzedDocuments++;
 
-    documents.forEach(doc => {
-      const metadata = doc.metadata || {};
-      const docKeys = Object.keys(metadata);
+        const metadata = doc.metadata || {};
+        const docKeys = Object.keys(metadata);
 
-      // Track keys per document for average calculation
-      documentKeyCounts.set(doc.id, docKeys.length);
+        totalKeys += docKeys.length;
+        minKeysPerDocument = Math.min(minKeysPerDocument, docKeys.length);
+        maxKeysPerDocument = Math.max(maxKeysPerDocument, docKeys.length);
 
-      docKeys.forEach(key => {
-        if (!keyValueMap.has(key)) {
-          keyValueMap.set(key, []);
-        }
-        keyValueMap.get(key)!.push({
-          value: metadata[key],
-          docId: doc.id
+        docKeys.forEach(key => {
+          if (!accumulators.has(key)) {
+            accumulators.set(key, this.createAccumulator());
+          }
+          this.accumulate(accumulators.get(key)!, metadata[key], doc.id);
         });
-      });
-    });
+      }
+    }
+
+    console.log(`Analyzed metadata for ${analyzedDocuments} of ${totalDocuments} documents`);
+
+    if (analyzedDocuments === 0) {
+      throw new NotFoundError(`No documents found in namespace "${namespace}"`);
+    }
 
     // Analyze each key
     const keyProfiles: MetadataKeyProfile[] = [];
 
-    for (const [keyName, valueEntries] of keyValueMap.entries()) {
-      console.log(`Analyzing key: ${keyName} (${valueEntries.length} values)`);
-
-      const values = valueEntries.map(entry => entry.value);
-      const documentIds = valueEntries.map(entry => entry.docId);
+    for (const [keyName, accumulator] of accumulators.entries()) {
+      console.log(`Analyzing key: ${keyName} (${accumulator.count} values)`);
 
       // Calculate presence percentage
-      const presence = (valueEntries.length / documents.length) * 100;
-
-      // Analyze data type and statistics
-      const dataTypeAnalysis = DataTypeDetector.analyzeValues(values);
+      const presence = (accumulator.count / analyzedDocuments) * 100;
 
-      // Get sample values (random 10)
-      const sampleValues = this.getSampleValues(values, 10);
+      const uniqueCount = this.distinctCount(accumulator);
 
-      // Calculate most common values
-      const mostCommonValues = this.getMostCommonValues(values, 10);
+      // Analyze data type and statistics
+      const dataTypeAnalysis = DataTypeDetector.analyzeSummary({
+        totalCount: accumulator.count,
+        nullCount: accumulator.nullCount,
+        uniqueCount,
+        minLength: accumulator.minLength,
+        maxLength: accumulator.maxLength,
+        totalLength: accumulator.totalLength,
+        samples: accumulator.samples.filter(value => !DataTypeDetector.isEmpty(value)).map(value => String(value))
+      });
 
       const keyProfile: MetadataKeyProfile = {
         keyName,
         presence,
         dataTypeAnalysis,
-        sampleValues,
-        mostCommonValues,
-        uniqueValueCount: new Set(values).size,
-        documentIds
+        sampleValues: accumulator.samples.slice(0, 10), // The reservoir is already a random sample
+        mostCommonValues: this.getMostCommonValues(accumulator, 10),
+        uniqueValueCount: uniqueCount + accumulator.emptyValues.size,
+        valueTypes: accumulator.valueTypes,
+        documentIds: accumulator.documentIds
       };
 
       keyProfiles.push(keyProfile);
@@ -109,11 +141,8 @@ export class MetadataAnalyzer {
     keyProfiles.sort((a, b) => b.presence - a.presence);
 
     // Calculate analysis metrics
-    const totalKeyCounts = Array.from(documentKeyCounts.values());
-    const avgKeysPerDocument = totalKeyCounts.reduce((sum, count) => sum + count, 0) / totalKeyCounts.length;
-    const minKeysPerDocument = totalKeyCounts.length > 0 ? Math.min(...totalKeyCounts) : 0;
-    const maxKeysPerDocument = totalKeyCounts.length > 0 ? Math.max(...totalKeyCounts) : 0;
-    const totalUniqueKeys = keyValueMap.size;
+    const avgKeysPerDocument = totalKeys / analyzedDocuments;
+    const totalUniqueKeys = accumulators.size;
 
     // Data quality score based on completeness and consistency
     const avgCompleteness = keyProfiles.reduce((sum, key) => sum + key.dataTypeAnalysis.statistics.completeness, 0) / keyProfiles.length;
@@ -123,8 +152,8 @@ export class MetadataAnalyzer {
     const profile: MetadataProfile = {
       indexName,
       namespace: (namespace || '(no namespace)'),
-      totalDocuments: documents.length,
-      analyzedDocuments: documents.length,
+      totalDocuments,
+      analyzedDocuments,
       keyProfiles,
       generatedAt: new Date().toISOString(),
       analysisMetrics: {
@@ -140,24 +169,79 @@ export class MetadataAnalyzer {
     return profile;
   }
 
-  private getSampleValues(values: any[], count: number): any[] {
-    const shuffled = [...values].sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, count);
+  private createAccumulator(): KeyAccumulator {
+    return {
+      count: 0,
+      nullCount: 0,
+      minLength: Infinity,
+      maxLength: 0,
+      totalLength: 0,
+      valueTypes: {},
+      valueCounts: new Map(),
+      distinctHashes: new Set(),
+      emptyValues: new Set(),
+      samples: [],
+      documentIds: []
+    };
   }
 
-  private getMostCommonValues(values: any[], count: number): Array<{ value: any; count: number; percentage: number }> {
-    const valueFrequency = new Map<any, number>();
+  private accumulate(accumulator: KeyAccumulator, value: any, docId: string): void {
+    accumulator.count++;
+
+    const type: MetadataValueType = Array.isArray(value) ? 'list'
+      : Number.isInteger(value) ? 'integer'
+      : typeof value as MetadataValueType;
+    accumulator.valueTypes[type] = (accumulator.valueTypes[type] || 0) + 1;
 
-    values.forEach(value => {
-      const key = typeof value === 'object' ? JSON.stringify(value) : value;
-      valueFrequency.set(key, (valueFrequency.get(key) || 0) + 1);
-    });
+    if (accumulator.documentIds.length < MAX_DOCUMENT_IDS) accumulator.documentIds.push(docId);
 
-    const sorted = Array.from(valueFrequency.entries())
+    // Reservoir sampling - every value has the same chance of ending up in the sample
+    if (accumulator.samples.length < MAX_SAMPLES) {
+      accumulator.samples.push(value);
+    } else {
+      const slot = Math.floor(Math.random() * accumulator.count);
+      if (slot < MAX_SAMPLES) accumulator.samples[slot] = value;
+    }
+
+    const key = typeof value === 'object' ? JSON.stringify(value) : value;
+    if (accumulator.valueCounts.has(key) || accumulator.valueCounts.size < MAX_COUNTED_VALUES) {
+      accumulator.valueCounts.set(key, (accumulator.valueCounts.get(key) || 0) + 1);
+    }
+
+    if (DataTypeDetector.isEmpty(value)) {
+      accumulator.nullCount++;
+      accumulator.emptyValues.add(value);
+      return;
+    }
+
+    const length = String(value).length;
+    accumulator.minLength = Math.min(accumulator.minLength, length);
+    accumulator.maxLength = Math.max(accumulator.maxLength, length);
+    accumulator.totalLength += length;
+
+    if (accumulator.nonNullAtSaturation === undefined) {
+      accumulator.distinctHashes.add(hash53(`${typeof value}:${key}`));
+      if (accumulator.distinctHashes.size >= MAX_DISTINCT_HASHES) {
+        accumulator.nonNullAtSaturation = accumulator.count - accumulator.nullCount;
+      }
+    }
+  }
+
+  // Exact until the hash set fills up, then scaled by how fast new values were turning up until that point
+  private distinctCount(accumulator: KeyAccumulator): number {
+    const distinct = accumulator.distinctHashes.size;
+    if (accumulator.nonNullAtSaturation === undefined) return distinct;
+
+    const nonNullCount = accumulator.count - accumulator.nullCount;
+    return Math.min(nonNullCount, Math.round(distinct * nonNullCount / accumulator.nonNullAtSaturation));
+  }
+
+  private getMostCommonValues(accumulator: KeyAccumulator, count: number): Array<{ value: any; count: number; percentage: number }> {
+    const sorted = Array.from(accumulator.valueCounts.entries())
       .map(([value, count]) => ({
         value: value,
         count,
-        percentage: Math.round((count / values.length) * 10000) / 100
+        percentage: Math.round((count / accumulator.count) * 10000) / 100
       }))
       .sort((a, b) => b.count - a.count)
       .slice(0, count);
@@ -165,22 +249,27 @@ export class MetadataAnalyzer {
     return sorted;
   }
 
-  // Get documents that contain a specific metadata key
+  // Get documents that contain a specific metadata key, across the whole namespace
   async getDocumentsWithKey(indexName: string, namespace: string, keyName: string): Promise<string[]> {
-    const documents = await pineconeService.queryDocuments(indexName, {
+    const documentIds: string[] = [];
+
+    for await (const batch of pineconeService.scanNamespace(indexName, {
       namespace,
-      topK: 100, // Limited sample to find docs with this key
-      includeMetadata: true,
-      random: false
-    });
-
-    return documents
-      .filter(doc => doc.metadata && keyName in doc.metadata)
-      .map(doc => doc.id);
+      filter: { [keyName]: { $exists: true } }
+    })) {
+      documentIds.push(...batch.records.map(doc => doc.id));
+    }
+
+    return documentIds;
   }
 
   // Delete all documents that contain a specific metadata key
-  async deleteDocumentsWithKey(indexName: string, namespace: string, keyName: string): Promise<{ success: boolean; deletedCount: number }> {
+  async deleteDocumentsWithKey(
+    indexName: string,
+    namespace: string,
+    keyName: string,
+    options: { snapshot?: boolean } = {}
+  ): Promise<{ success: boolean; deletedCount: number; snapshotId?: string }> {
     console.log(`Finding documents with key "${keyName}" for deletion...`);
 
     const documentIds = await this.getDocumentsWithKey(indexName, namespace, keyName);
@@ -189,11 +278,16 @@ export class MetadataAnalyzer {
       return { success: true, deletedCount: 0 };
     }
 
+    // Snapshot outside the try: if the backup fails, nothing gets deleted
+    const snapshot = options.snapshot
+      ? await snapshotService.createSnapshot(indexName, { namespace, ids: documentIds, reason: `delete-with-key:${keyName}` })
+      : undefined;
+
     console.log(`Deleting ${documentIds.length} documents with key "${keyName}"`);
 
     try {
       await pineconeService.deleteMany(indexName, documentIds, namespace);
-      return { success: true, deletedCount: documentIds.length };
+      return { success: true, deletedCount: documentIds.length, snapshotId: snapshot?.snapshotId };
     } catch (error) {
       console.error('Failed to delete documents:', error);
       throw new Error(`Failed to delete documents: ${error instanceof Error ? error.message : String(error)}`);
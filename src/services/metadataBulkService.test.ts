@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pineconeService from './pineconeService';
+import metadataBulkService from './metadataBulkService';
+
+jest.mock('./pineconeService', () => ({
+  __esModule: true,
+  default: {
+    scanNamespace: jest.fn(),
+    upsertRecords: jest.fn()
+  }
+}));
+
+jest.mock('./validationRuleService', () => ({ __esModule: true, default: {} }));
+
+const mocked = pineconeService as jest.Mocked<typeof pineconeService>;
+
+// Five batches of two records; the checkpoint is the next batch number, scanned counts from where this scan started
+const serveBatches = () => {
+  mocked.scanNamespace.mockImplementation(async function* (_index: string, options: any) {
+    const start = Number(options.checkpoint || 0);
+    for (let batch = start; batch < 5; batch++) {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      yield {
+        records: [0, 1].map(i => ({ id: `doc-${batch}-${i}`, values: [1, 0], metadata: { old: 'x' } })),
+        scanned: (batch - start + 1) * 2,
+        checkpoint: batch < 4 ? String(batch + 1) : null
+      } as any;
+    }
+  } as any);
+};
+
+describe('MetadataBulkService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'metadata-jobs-'));
+    process.env.DATA_DIR = dir;
+    serveBatches();
+    mocked.upsertRecords.mockImplementation(async (_index, records) => ({ upserted: records.length, batches: 1, failedBatches: [] }));
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('pauses after maxBatches and resumes from the checkpoint', async () => {
+    const paused = await metadataBulkService.renameKey('docs', 'old', 'new', { maxBatches: 2 });
+    expect(paused).toMatchObject({ status: 'paused', touched: 4, checkpoint: '2' });
+
+    const resumed = await metadataBulkService.renameKey('docs', 'old', 'new', { jobId: paused.jobId });
+    expect(resumed).toMatchObject({ status: 'completed', touched: 10, scanned: 10 });
+    expect(mocked.upsertRecords.mock.calls[0][1][0]).toEqual({ id: 'doc-0-0', values: [1, 0], metadata: { new: 'x' } });
+  });
+
+  it('lets concurrent resumes of one job take turns instead of rewriting the same batches', async () => {
+    const paused = await metadataBulkService.renameKey('docs', 'old', 'new', { maxBatches: 1 });
+    mocked.upsertRecords.mockClear();
+
+    const results = await Promise.allSettled([
+      metadataBulkService.renameKey('docs', 'old', 'new', { jobId: paused.jobId, maxBatches: 2 }),
+      metadataBulkService.renameKey('docs', 'old', 'new', { jobId: paused.jobId, maxBatches: 2 })
+    ]);
+
+    const written = mocked.upsertRecords.mock.calls.flatMap(call => call[1].map(record => record.id));
+    expect(new Set(written).size).toBe(written.length);
+    expect(written).toHaveLength(8);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled']);
+    expect((await metadataBulkService.getJob('docs', paused.jobId))).toMatchObject({ status: 'completed', touched: 10 });
+  });
+
+  it('refuses to resume a completed job', async () => {
+    const job = await metadataBulkService.renameKey('docs', 'old', 'new');
+    await expect(metadataBulkService.renameKey('docs', 'old', 'new', { jobId: job.jobId })).rejects.toThrow(/already completed/);
+  });
+});
@@ -0,0 +1,406 @@
+// Bulk metadata rewrites - namespace-wide edits that Pinecone's update() can't do on its own
+// update() merges metadata, so removing a key means upserting the whole record again
+
+import { randomBytes } from 'crypto';
+import { PineconeRecord, RecordMetadata } from '@pinecone-database/pinecone';
+import pineconeService, { DocumentRecord } from './pineconeService';
+import validationRuleService, { ValidationRule } from './validationRuleService';
+import { MetadataFilter, MetadataFilterEngine } from '../utils/metadataFilter';
+import { MetadataOperation, MetadataOperationEngine } from '../utils/metadataOperations';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { dataPath, readJson, withFileLock, writeJson } from '../utils/localStore';
+
+export type RenameCollisionPolicy = 'keep-old' | 'keep-new' | 'fail';
+
+export const RENAME_COLLISION_POLICIES: RenameCollisionPolicy[] = ['keep-old', 'keep-new', 'fail'];
+
+export interface BulkRunOptions {
+  namespace?: string;
+  jobId?: string; // Resume an earlier run from its last checkpoint
+  maxBatches?: number; // Stop after this many scan batches and leave the job resumable
+  enforceRules?: boolean; // Skip (and report) records whose new metadata would break the namespace's validation rules
+}
+
+export interface RenameKeyOptions extends BulkRunOptions {
+  onCollision?: RenameCollisionPolicy; // What to do when a record already has the new key
+}
+
+export interface RenameKeyParams {
+  oldKey: string;
+  newKey: string;
+  onCollision: RenameCollisionPolicy;
+}
+
+export interface UpdateByFilterParams {
+  filter: MetadataFilter;
+  operations: MetadataOperation[];
+}
+
+export type BulkJobStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+// Persisted after every batch, so a crash or a timeout never loses more than one batch of progress
+export interface BulkJobState<P = RenameKeyParams | UpdateByFilterParams> {
+  jobId: string;
+  indexName: string;
+  namespace: string;
+  operation: 'rename-key' | 'update-by-filter';
+  params: P;
+  enforceRules: boolean;
+  status: BulkJobStatus;
+  checkpoint: string | null; // Scan position after the last fully written batch
+  scanned: number;
+  matched: number;
+  touched: number; // Records rewritten
+  unchanged: number; // Matched, but the edit was a no-op, so nothing was written
+  collisions: number; // Rename only: records written that had both keys
+  failed: number;
+  errors: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdatePreviewItem {
+  id: string;
+  before: RecordMetadata;
+  after: RecordMetadata | null; // null when the operations fail on this record
+  changed: boolean;
+  error?: string;
+  violations?: string[]; // Only with enforceRules: why this write would be rejected
+}
+
+export interface UpdatePreview {
+  scanned: number;
+  previewed: number;
+  items: UpdatePreviewItem[];
+}
+
+// What a job's per-batch step hands back to the runner
+interface BatchRewrite {
+  rewrites: PineconeRecord[];
+  unchanged?: number;
+  collisions?: number;
+  failures?: string[]; // Per-record problems; those records are skipped, the batch goes ahead
+  abort?: string; // Stop the job before writing anything from this batch
+}
+
+const MAX_JOB_ERRORS = 100;
+const MAX_PREVIEW = 100;
+
+export class MetadataBulkService {
+
+  /**
+   * Move oldKey's value to newKey on every record carrying oldKey, then drop oldKey.
+   * Runs batch by batch from the scan checkpoint; pass the returned jobId to pick up where it stopped.
+   */
+  async renameKey(indexName: string, oldKey: string, newKey: string, options: RenameKeyOptions = {}): Promise<BulkJobState<RenameKeyParams>> {
+    return this.withJobLock(indexName, options.jobId, async () => {
+      const job = options.jobId
+        ? await this.resumeJob<RenameKeyParams>(indexName, options.jobId, 'rename-key')
+        : this.newJob(indexName, options.namespace || '', 'rename-key', this.validateRenameParams(oldKey, newKey, options.onCollision), options.enforceRules);
+
+      if (job.params.oldKey !== oldKey) {
+        throw new ValidationError(`Job ${job.jobId} renames "${job.params.oldKey}", not "${oldKey}"`);
+      }
+
+      // A job stopped by "fail" can be resumed with a different policy once someone has decided who wins
+      if (options.jobId && options.onCollision) {
+        job.params = this.validateRenameParams(job.params.oldKey, job.params.newKey, options.onCollision);
+      }
+
+      const { oldKey: from, newKey: to, onCollision } = job.params;
+
+      console.log(`✏️ Renaming "${from}" -> "${to}" in ${indexName}:${(job.namespace || '(no namespace)')} (job ${job.jobId}${options.jobId ? ', resumed' : ''})`);
+
+      return this.runJob(job, { [from]: { $exists: true } }, options.maxBatches, records => {
+        const rewrites: PineconeRecord[] = [];
+        const collidingIds: string[] = [];
+
+        for (const record of records) {
+          const collides = to in record.metadata;
+          if (collides) collidingIds.push(record.id);
+          rewrites.push(this.toRecord(record, this.renameInMetadata(record.metadata, from, to, collides ? onCollision : 'keep-old')));
+        }
+
+        // "fail" stops before this batch is written, so resuming after a fix starts from a clean position
+        if (onCollision === 'fail' && collidingIds.length > 0) {
+          return {
+            rewrites: [],
+            abort: `Records already have "${to}": ${collidingIds.slice(0, 20).join(', ')}${collidingIds.length > 20 ? ', ...' : ''}`
+          };
+        }
+
+        return { rewrites, collisions: collidingIds.length };
+      });
+    });
+  }
+
+  /**
+   * Apply a list of metadata operations to every record matching the filter.
+   * Same resumable job mechanics as renameKey; records where an operation fails are skipped and reported.
+   */
+  async updateByFilter(
+    indexName: string,
+    filter: MetadataFilter | undefined,
+    rawOperations: unknown,
+    options: BulkRunOptions = {}
+  ): Promise<BulkJobState<UpdateByFilterParams>> {
+    return this.withJobLock(indexName, options.jobId, async () => {
+      const job = options.jobId
+        ? await this.resumeJob<UpdateByFilterParams>(indexName, options.jobId, 'update-by-filter')
+        : this.newJob(indexName, options.namespace || '', 'update-by-filter', {
+          filter: filter || {},
+          operations: MetadataOperationEngine.validate(rawOperations)
+        }, options.enforceRules);
+
+      const { operations } = job.params;
+
+      console.log(`🛠️ Bulk update of ${indexName}:${(job.namespace || '(no namespace)')} with ${operations.length} operations (job ${job.jobId}${options.jobId ? ', resumed' : ''})`);
+
+      return this.runJob(job, job.params.filter, options.maxBatches, records => {
+        const rewrites: PineconeRecord[] = [];
+        const failures: string[] = [];
+        let unchanged = 0;
+
+        for (const record of records) {
+          try {
+            const updated = MetadataOperationEngine.apply(record.metadata, operations);
+            if (MetadataOperationEngine.isEqual(record.metadata, updated)) {
+              unchanged++;
+            } else {
+              rewrites.push(this.toRecord(record, updated));
+            }
+          } catch (error: any) {
+            failures.push(`${record.id}: ${error.message}`);
+          }
+        }
+
+        return { rewrites, unchanged, failures };
+      });
+    });
+  }
+
+  /**
+   * Before/after metadata for the first `limit` matching records. Reads only, writes nothing.
+   */
+  async previewUpdate(
+    indexName: string,
+    filter: MetadataFilter | undefined,
+    rawOperations: unknown,
+    options: { namespace?: string; limit?: number; enforceRules?: boolean } = {}
+  ): Promise<UpdatePreview> {
+    const operations = MetadataOperationEngine.validate(rawOperations);
+    const rules = options.enforceRules ? (await validationRuleService.getRules(indexName, options.namespace || '')).rules : [];
+    const limit = Math.min(Math.max(options.limit || 10, 1), MAX_PREVIEW);
+    const items: UpdatePreviewItem[] = [];
+    let scanned = 0;
+
+    for await (const batch of pineconeService.scanNamespace(indexName, { namespace: options.namespace, filter })) {
+      scanned = batch.scanned;
+
+      for (const record of batch.records) {
+        try {
+          const after = MetadataOperationEngine.apply(record.metadata, operations);
+          const violations = validationRuleService.validate(rules, after).map(violation => `[${violation.ruleId}] ${violation.message}`);
+          items.push({
+            id: record.id,
+            before: record.metadata,
+            after,
+            changed: !MetadataOperationEngine.isEqual(record.metadata, after),
+            ...(options.enforceRules ? { violations } : {})
+          });
+        } catch (error: any) {
+          items.push({ id: record.id, before: record.metadata, after: null, changed: false, error: error.message });
+        }
+        if (items.length >= limit) break;
+      }
+
+      if (items.length >= limit) break;
+    }
+
+    return { scanned, previewed: items.length, items };
+  }
+
+  async getJob(indexName: string, jobId: string): Promise<BulkJobState> {
+    const job = await readJson<BulkJobState>(this.jobPath(indexName, jobId));
+    if (!job) {
+      throw new NotFoundError(`Metadata job ${jobId} not found for index "${indexName}"`);
+    }
+    return job;
+  }
+
+  // Scan from the job's checkpoint, rewrite each batch, and save progress after every write
+  private async runJob<P>(
+    job: BulkJobState<P>,
+    filter: MetadataFilter,
+    maxBatchesOption: number | undefined,
+    rewriteBatch: (records: DocumentRecord[]) => BatchRewrite
+  ): Promise<BulkJobState<P>> {
+    const maxBatches = maxBatchesOption && maxBatchesOption > 0 ? maxBatchesOption : Infinity;
+    const rules = job.enforceRules ? (await validationRuleService.getRules(job.indexName, job.namespace)).rules : [];
+    const scannedBefore = job.scanned;
+    let batches = 0;
+
+    job.status = 'running';
+    await this.saveJob(job);
+
+    for await (const batch of pineconeService.scanNamespace(job.indexName, {
+      namespace: job.namespace,
+      filter: MetadataFilterEngine.isEmpty(filter) ? undefined : filter,
+      includeValues: true,
+      checkpoint: job.checkpoint || undefined
+    })) {
+      const step = this.enforceRules(rewriteBatch(batch.records), rules);
+
+      if (step.abort) {
+        job.status = 'failed';
+        this.addError(job, step.abort);
+        break;
+      }
+
+      if (step.rewrites.length > 0) {
+        const result = await pineconeService.upsertRecords(job.indexName, step.rewrites, job.namespace);
+        job.touched += result.upserted;
+        for (const failed of result.failedBatches) {
+          job.failed += failed.ids.length;
+          this.addError(job, `${failed.ids.length} records failed: ${failed.error}`);
+        }
+      }
+
+      for (const failure of step.failures || []) {
+        job.failed++;
+        this.addError(job, failure);
+      }
+
+      job.matched += batch.records.length;
+      job.unchanged += step.unchanged || 0;
+      job.collisions += step.collisions || 0;
+      job.scanned = scannedBefore + batch.scanned;
+      job.checkpoint = batch.checkpoint;
+      batches++;
+
+      if (batch.checkpoint === null) {
+        job.status = 'completed';
+      } else if (batches >= maxBatches) {
+        job.status = 'paused';
+        break;
+      }
+      await this.saveJob(job);
+    }
+
+    // An empty namespace never yields a batch - still a completed job
+    if (job.status === 'running') job.status = 'completed';
+    await this.saveJob(job);
+
+    console.log(`Metadata job ${job.jobId} ${job.status}: ${job.touched} records touched, ${job.unchanged} unchanged, ${job.failed} failed`);
+    return job;
+  }
+
+  // Records whose new metadata breaks a rule are dropped from the write and reported as failures
+  private enforceRules(step: BatchRewrite, rules: ValidationRule[]): BatchRewrite {
+    if (rules.length === 0 || step.abort) return step;
+
+    const failures = [...(step.failures || [])];
+    const rewrites = step.rewrites.filter(record => {
+      const violations = validationRuleService.validate(rules, record.metadata || {});
+      if (violations.length === 0) return true;
+      failures.push(`${record.id}: breaks ${violations.map(violation => `[${violation.ruleId}] ${violation.message}`).join('; ')}`);
+      return false;
+    });
+
+    return { ...step, rewrites, failures };
+  }
+
+  private validateRenameParams(oldKey: string, newKey: string, onCollision: RenameCollisionPolicy = 'fail'): RenameKeyParams {
+    if (typeof newKey !== 'string' || !newKey.trim()) {
+      throw new ValidationError('newKey is required');
+    }
+    if (newKey === oldKey) {
+      throw new ValidationError('newKey is the same as the current key. Renaming it to itself is very zen, but pointless.');
+    }
+    if (!RENAME_COLLISION_POLICIES.includes(onCollision)) {
+      throw new ValidationError(`Unknown onCollision "${onCollision}". Use one of: ${RENAME_COLLISION_POLICIES.join(', ')}`);
+    }
+    return { oldKey, newKey, onCollision };
+  }
+
+  private renameInMetadata(
+    metadata: RecordMetadata,
+    from: string,
+    to: string,
+    policy: RenameCollisionPolicy
+  ): RecordMetadata {
+    const { [from]: value, ...rest } = metadata;
+    // keep-new leaves the existing new-key value alone, keep-old overwrites it with the old key's value
+    return policy === 'keep-new' ? rest : { ...rest, [to]: value };
+  }
+
+  private toRecord(record: DocumentRecord, metadata: RecordMetadata): PineconeRecord {
+    return {
+      id: record.id,
+      values: record.values,
+      ...(record.sparseValues ? { sparseValues: record.sparseValues } : {}),
+      metadata
+    };
+  }
+
+  private newJob<P>(
+    indexName: string,
+    namespace: string,
+    operation: BulkJobState['operation'],
+    params: P,
+    enforceRules: boolean = false
+  ): BulkJobState<P> {
+    const now = new Date().toISOString();
+    return {
+      jobId: `job-${now.replace(/[-:.]/g, '')}-${randomBytes(3).toString('hex')}`,
+      indexName,
+      namespace,
+      operation,
+      params,
+      enforceRules,
+      status: 'running',
+      checkpoint: null,
+      scanned: 0,
+      matched: 0,
+      touched: 0,
+      unchanged: 0,
+      collisions: 0,
+      failed: 0,
+      errors: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private async resumeJob<P>(indexName: string, jobId: string, operation: BulkJobState['operation']): Promise<BulkJobState<P>> {
+    const job = await this.getJob(indexName, jobId);
+    if (job.operation !== operation) {
+      throw new ValidationError(`Job ${jobId} is a ${job.operation} job, it can't be resumed as ${operation}`);
+    }
+    if (job.status === 'completed') {
+      throw new ValidationError(`Job ${jobId} already completed. Nothing left to resume.`);
+    }
+    return job as BulkJobState<P>;
+  }
+
+  private addError(job: BulkJobState<unknown>, message: string): void {
+    if (job.errors.length < MAX_JOB_ERRORS) job.errors.push(message);
+  }
+
+  private async saveJob(job: BulkJobState<unknown>): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await writeJson(this.jobPath(job.indexName, job.jobId), job);
+  }
+
+  // A new job's ID is unknown to anyone else, so only resumes need the lock. Two resumes of one job take turns:
+  // the second reads the checkpoint the first saved instead of rewriting the same batches alongside it.
+  private withJobLock<T>(indexName: string, jobId: string | undefined, task: () => Promise<T>): Promise<T> {
+    return jobId ? withFileLock(this.jobPath(indexName, jobId), task) : task();
+  }
+
+  private jobPath(indexName: string, jobId: string): string {
+    return dataPath('metadata-jobs', indexName, `${jobId}.json`);
+  }
+}
+
+export default new MetadataBulkService();
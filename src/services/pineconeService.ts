@@ -1,5 +1,85 @@
+import { createHash } from 'crypto';
 import pinecone from '../utils/pineconeClient';
-import { Index, RecordMetadata } from '@pinecone-database/pinecone';
+import { Errors, Index, IndexModel, PineconeRecord, RecordMetadata, RecordSparseValues } from '@pinecone-database/pinecone';
+import { MetadataFilter, MetadataFilterEngine } from '../utils/metadataFilter';
+import { PageCursorCodec } from '../utils/pageCursor';
+import { HttpError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface DocumentRecord {
+  id: string;
+  score: number;
+  metadata: RecordMetadata;
+  values: number[];
+  sparseValues?: RecordSparseValues;
+}
+
+export interface ScoredDocument {
+  id: string;
+  score: number;
+  metadata: RecordMetadata;
+}
+
+export interface SimilarDocuments {
+  source: { id: string; metadata: RecordMetadata };
+  matches: ScoredDocument[];
+}
+
+export interface ScanOptions {
+  namespace?: string;
+  prefix?: string; // Only scan IDs starting with this prefix
+  filter?: MetadataFilter;
+  includeValues?: boolean;
+  batchSize?: number; // IDs listed per batch, Pinecone caps this at 100
+  checkpoint?: string; // Resume right after the batch that returned this checkpoint
+}
+
+export interface ScanBatch {
+  records: DocumentRecord[];
+  scanned: number; // IDs listed so far, matching the filter or not
+  matched: number; // Records yielded so far
+  checkpoint: string | null; // null once the namespace is exhausted
+}
+
+export interface DocumentPage {
+  documents: DocumentRecord[];
+  nextCursor: string | null;
+}
+
+export interface UpsertResult {
+  upserted: number;
+  batches: number;
+  failedBatches: Array<{ ids: string[]; error: string }>;
+}
+
+export interface CreateIndexParams {
+  name: string;
+  dimension: number;
+  metric?: 'cosine' | 'euclidean' | 'dotproduct';
+  type: 'serverless' | 'pod';
+  cloud?: 'aws' | 'gcp' | 'azure'; // serverless only
+  region?: string; // serverless only
+  environment?: string; // pod only
+  podType?: string; // pod only, e.g. "p1.x1"
+  pods?: number;
+  replicas?: number;
+  shards?: number;
+  deletionProtection?: boolean;
+}
+
+export interface ConfigureIndexParams {
+  replicas?: number; // pod indexes only
+  podType?: string; // pod indexes only, and only upwards within the same family
+  deletionProtection?: boolean;
+}
+
+// Pinecone's own naming rules, checked here so users get a readable error instead of a 400 blob
+const INDEX_NAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+const MAX_INDEX_NAME_LENGTH = 45;
+const POD_TYPE_PATTERN = /^(s1|p1|p2)\.(x1|x2|x4|x8)$/;
+
+// Pinecone upsert limits: 2MB per request, 1000 records per request. We stay a little under both.
+const MAX_UPSERT_BYTES = 1.8 * 1024 * 1024;
+const MAX_UPSERT_RECORDS = 1000;
 
 // The service that actually does the work while others take credit
 export class PineconeService {
@@ -16,6 +96,18 @@ export class PineconeService {
     }
   }
 
+  // Index config (dimension, metric, spec) straight from listIndexes
+  async getIndexDescription(indexName: string): Promise<IndexModel> {
+    const indexes = await this.listIndexes();
+    const description = indexes.indexes?.find(index => index.name === indexName);
+
+    if (!description) {
+      throw new NotFoundError(`Index "${indexName}" does not exist. Check the spelling, then check it again.`);
+    }
+
+    return description;
+  }
+
   async getIndex(indexName: string): Promise<Index<RecordMetadata>> {
     if (!this.indexCache.has(indexName)) {
       const index = pinecone.index(indexName);
@@ -35,19 +127,179 @@ export class PineconeService {
     }
   }
 
+  /**
+   * Create a serverless or pod-based index. Returns straight away - the index starts out
+   * "Initializing", so poll describeIndex until it says "Ready"
+   */
+  async createIndex(params: CreateIndexParams): Promise<IndexModel> {
+    this.validateIndexName(params.name);
+
+    if (!Number.isInteger(params.dimension) || params.dimension < 1 || params.dimension > 20000) {
+      throw new ValidationError('dimension must be an integer between 1 and 20000');
+    }
+
+    const metric = params.metric || 'cosine';
+    if (!['cosine', 'euclidean', 'dotproduct'].includes(metric)) {
+      throw new ValidationError(`Unknown metric "${metric}". Use cosine, euclidean or dotproduct.`);
+    }
+
+    let spec;
+    if (params.type === 'serverless') {
+      if (!params.cloud || !params.region) {
+        throw new ValidationError('Serverless indexes need a cloud and a region');
+      }
+      spec = { serverless: { cloud: params.cloud, region: params.region } };
+    } else if (params.type === 'pod') {
+      if (!params.environment || !params.podType) {
+        throw new ValidationError('Pod indexes need an environment and a podType');
+      }
+      this.validatePodType(params.podType);
+      spec = {
+        pod: {
+          environment: params.environment,
+          podType: params.podType,
+          ...(params.pods !== undefined ? { pods: this.validateCount('pods', params.pods) } : {}),
+          ...(params.replicas !== undefined ? { replicas: this.validateCount('replicas', params.replicas) } : {}),
+          ...(params.shards !== undefined ? { shards: this.validateCount('shards', params.shards) } : {})
+        }
+      };
+    } else {
+      throw new ValidationError('type must be "serverless" or "pod"');
+    }
+
+    try {
+      await pinecone.createIndex({
+        name: params.name,
+        dimension: params.dimension,
+        metric,
+        spec,
+        deletionProtection: params.deletionProtection ? 'enabled' : 'disabled'
+      });
+      console.log(`🏗️ Index ${params.name} is being created. Patience is a virtue.`);
+      return await this.describeIndex(params.name);
+    } catch (error) {
+      throw this.toHttpError(error, `Cannot create index "${params.name}"`);
+    }
+  }
+
+  // Full description including status.state, straight from the control plane (no listIndexes detour)
+  async describeIndex(indexName: string): Promise<IndexModel> {
+    try {
+      return await pinecone.describeIndex(indexName);
+    } catch (error) {
+      throw this.toHttpError(error, `Cannot describe index "${indexName}"`);
+    }
+  }
+
+  async configureIndex(indexName: string, params: ConfigureIndexParams): Promise<IndexModel> {
+    const { replicas, podType, deletionProtection } = params;
+
+    if (replicas === undefined && podType === undefined && deletionProtection === undefined) {
+      throw new ValidationError('Nothing to configure. Pass replicas, podType or deletionProtection.');
+    }
+
+    if (replicas !== undefined || podType !== undefined) {
+      const description = await this.describeIndex(indexName);
+      if (!description.spec.pod) {
+        throw new ValidationError(`Index "${indexName}" is serverless - replicas and podType only apply to pod indexes`);
+      }
+      if (replicas !== undefined) this.validateCount('replicas', replicas);
+      if (podType !== undefined) this.validatePodType(podType);
+    }
+
+    try {
+      const updated = await pinecone.configureIndex(indexName, {
+        ...(replicas !== undefined || podType !== undefined
+          ? { spec: { pod: { ...(replicas !== undefined ? { replicas } : {}), ...(podType !== undefined ? { podType } : {}) } } }
+          : {}),
+        ...(deletionProtection !== undefined ? { deletionProtection: deletionProtection ? 'enabled' : 'disabled' } : {})
+      });
+      console.log(`🔧 Index ${indexName} reconfigured`);
+      return updated;
+    } catch (error) {
+      throw this.toHttpError(error, `Cannot configure index "${indexName}"`);
+    }
+  }
+
+  /**
+   * Delete an index for good. The caller must type the index name back as confirmation,
+   * and deletion protection has to be switched off first.
+   */
+  async deleteIndex(indexName: string, confirmName: string | undefined): Promise<void> {
+    if (confirmName !== indexName) {
+      throw new ValidationError(`Confirmation does not match. Type "${indexName}" exactly to delete this index.`);
+    }
+
+    const description = await this.describeIndex(indexName);
+    if (description.deletionProtection === 'enabled') {
+      throw new HttpError(409, `Index "${indexName}" has deletion protection enabled. Disable it first if you really mean it.`);
+    }
+
+    try {
+      await pinecone.deleteIndex(indexName);
+      this.indexCache.delete(indexName);
+      console.log(`💥 Index ${indexName} deleted. It had a good run.`);
+    } catch (error) {
+      throw this.toHttpError(error, `Cannot delete index "${indexName}"`);
+    }
+  }
+
+  private validateIndexName(name: string): void {
+    if (typeof name !== 'string' || !INDEX_NAME_PATTERN.test(name) || name.length > MAX_INDEX_NAME_LENGTH) {
+      throw new ValidationError(
+        `Invalid index name "${name}". Use lowercase letters, digits and hyphens, at most ${MAX_INDEX_NAME_LENGTH} characters, no leading or trailing hyphen.`
+      );
+    }
+  }
+
+  private validatePodType(podType: string): void {
+    if (!POD_TYPE_PATTERN.test(podType)) {
+      throw new ValidationError(`Invalid podType "${podType}". Use s1, p1 or p2 followed by .x1, .x2, .x4 or .x8`);
+    }
+  }
+
+  private validateCount(field: string, value: number): number {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new ValidationError(`${field} must be a positive integer`);
+    }
+    return value;
+  }
+
+  // Control-plane errors mapped to statuses the controllers can pass straight through
+  private toHttpError(error: unknown, context: string): HttpError {
+    if (error instanceof HttpError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${context}:`, message);
+
+    if (error instanceof Errors.PineconeNotFoundError) return new NotFoundError(`${context}: it does not exist`);
+    if (error instanceof Errors.PineconeConflictError) return new HttpError(409, `${context}: ${message}`);
+    if (error instanceof Errors.PineconeBadRequestError || error instanceof Errors.PineconeArgumentError) {
+      return new ValidationError(`${context}: ${message}`);
+    }
+    return new HttpError(500, `${context}: ${message}`);
+  }
+
   async queryDocuments(indexName: string, options: {
     namespace?: string;
     topK?: number;
     includeMetadata?: boolean;
     includeValues?: boolean;
-    filter?: any;
+    filter?: MetadataFilter;
     random?: boolean;
   } = {}) {
+    // Validate outside the try so a bad filter surfaces as a ValidationError, not a generic failure
+    if (options.filter) MetadataFilterEngine.validate(options.filter);
+
     try {
       const index = await this.getIndex(indexName);
       const limit = options.topK || 5; // Default to 5 documents
       const useRandom = options.random !== false; // Default to random sampling
 
+      if (!MetadataFilterEngine.isEmpty(options.filter)) {
+        return await this.queryFilteredDocuments(indexName, limit, options.filter!, options);
+      }
+
       console.log(`Using proper listPaginated API for serverless index: ${indexName}`);
 
       // Use the proper listPaginated API for serverless indexes
@@ -137,6 +389,310 @@ export class PineconeService {
     }
   }
 
+  // list+fetch can't filter server-side, so keep scanning until we have enough matches or run out of namespace
+  private async queryFilteredDocuments(
+    indexName: string,
+    limit: number,
+    filter: MetadataFilter,
+    options: { namespace?: string; includeValues?: boolean }
+  ) {
+    const targetLimit = Math.min(limit, 10000);
+    const results: DocumentRecord[] = [];
+    let scanned = 0;
+
+    for await (const batch of this.scanNamespace(indexName, {
+      namespace: options.namespace,
+      filter,
+      includeValues: options.includeValues
+    })) {
+      results.push(...batch.records.slice(0, targetLimit - results.length));
+      scanned = batch.scanned;
+      if (results.length >= targetLimit) break;
+    }
+
+    console.log(`Filter matched ${results.length} documents after scanning ${scanned}. Needles, meet haystack.`);
+    return results;
+  }
+
+  /**
+   * Stream every record in a namespace, one list page per batch.
+   * Only the current batch is held in memory, so this copes with namespaces of any size.
+   * Each batch carries a checkpoint that can be handed back to resume right after it.
+   */
+  async *scanNamespace(indexName: string, options: ScanOptions = {}): AsyncGenerator<ScanBatch> {
+    if (options.filter) MetadataFilterEngine.validate(options.filter);
+    const start = PageCursorCodec.decode(options.checkpoint);
+    const filter = MetadataFilterEngine.isEmpty(options.filter) ? undefined : options.filter;
+    const batchSize = Math.min(Math.max(options.batchSize || 100, 1), 100);
+    let offset = start.offset;
+    let scanned = 0;
+    let matched = 0;
+
+    try {
+      const index = await this.getIndex(indexName);
+      const indexNamespace = index.namespace(options.namespace || '');
+
+      for await (const page of this.listIdPages(indexNamespace, { prefix: options.prefix, limit: batchSize, token: start.token })) {
+        const ids = page.ids.slice(offset);
+        offset = 0;
+
+        const records = (await this.fetchRecords(indexNamespace, ids, options.includeValues))
+          .filter(record => MetadataFilterEngine.matches(record.metadata, filter));
+
+        scanned += ids.length;
+        matched += records.length;
+
+        yield {
+          records,
+          scanned,
+          matched,
+          checkpoint: page.nextToken ? PageCursorCodec.encode({ token: page.nextToken, offset: 0 }) : null
+        };
+      }
+    } catch (error: any) {
+      console.error(`Scan of ${indexName} failed after ${scanned} records:`, error);
+      throw new Error(`Cannot scan namespace. The list API gave up after ${scanned} records: ${error.message}`);
+    }
+  }
+
+  // How many records Pinecone thinks a namespace holds, for "scanned N of M" reporting
+  async countNamespaceRecords(indexName: string, namespace: string = ''): Promise<number> {
+    const stats = await this.getIndexStats(indexName);
+    return stats.namespaces?.[namespace]?.recordCount ?? 0;
+  }
+
+  /**
+   * Fetch one page of documents, resuming from an opaque cursor.
+   * Walks listPaginated pages under the hood, so a whole namespace can be browsed page by page.
+   */
+  async listDocumentsPage(indexName: string, options: {
+    namespace?: string;
+    cursor?: string;
+    pageSize?: number;
+    includeValues?: boolean;
+    filter?: MetadataFilter;
+  } = {}): Promise<DocumentPage> {
+    if (options.filter) MetadataFilterEngine.validate(options.filter);
+    const position = PageCursorCodec.decode(options.cursor);
+    const pageSize = Math.min(Math.max(options.pageSize || 100, 1), 1000);
+    const filter = MetadataFilterEngine.isEmpty(options.filter) ? undefined : options.filter;
+
+    try {
+      const index = await this.getIndex(indexName);
+      const indexNamespace = index.namespace(options.namespace || '');
+      const documents: DocumentRecord[] = [];
+      let offset = position.offset;
+
+      for await (const page of this.listIdPages(indexNamespace, { token: position.token })) {
+        // Without a filter every fetched record counts, so only fetch what the page still needs
+        while (offset < page.ids.length && documents.length < pageSize) {
+          const fetchSize = filter ? 50 : Math.min(50, pageSize - documents.length);
+          const batch = page.ids.slice(offset, offset + fetchSize);
+          const records = await this.fetchRecords(indexNamespace, batch, options.includeValues);
+          const batchStart = offset;
+          offset += batch.length;
+
+          for (const record of records) {
+            if (!MetadataFilterEngine.matches(record.metadata, filter)) continue;
+            documents.push(record);
+
+            // Page is full mid-batch: the cursor resumes right after this record
+            if (documents.length >= pageSize) {
+              offset = page.ids.indexOf(record.id, batchStart) + 1;
+              break;
+            }
+          }
+        }
+
+        if (documents.length >= pageSize) {
+          if (offset < page.ids.length) {
+            return { documents, nextCursor: PageCursorCodec.encode({ token: page.token, offset }) };
+          }
+          return {
+            documents,
+            nextCursor: page.nextToken ? PageCursorCodec.encode({ token: page.nextToken, offset: 0 }) : null
+          };
+        }
+
+        offset = 0;
+      }
+
+      return { documents, nextCursor: null };
+    } catch (error: any) {
+      console.error(`Failed to page documents in ${indexName}:`, error);
+      throw new Error(`Cannot page through documents. The list API is having trouble: ${error.message}`);
+    }
+  }
+
+  // Fetch specific records by ID (missing IDs are simply absent from the result)
+  async fetchDocuments(indexName: string, ids: string[], options: {
+    namespace?: string;
+    includeValues?: boolean;
+  } = {}): Promise<DocumentRecord[]> {
+    const index = await this.getIndex(indexName);
+    return this.fetchRecords(index.namespace(options.namespace || ''), ids, options.includeValues);
+  }
+
+  // Raw listPaginated pages, following the pagination token until the namespace runs dry
+  private async *listIdPages(
+    indexNamespace: Index<RecordMetadata>,
+    options: { prefix?: string; limit?: number; token?: string }
+  ): AsyncGenerator<{ ids: string[]; token?: string; nextToken?: string }> {
+    let token = options.token;
+
+    while (true) {
+      const listResult = await indexNamespace.listPaginated({
+        limit: options.limit || 100, // Pinecone caps list pages at 100
+        ...(options.prefix ? { prefix: options.prefix } : {}),
+        ...(token ? { paginationToken: token } : {})
+      });
+
+      const ids = (listResult.vectors || []).map((vector: any) => vector.id as string);
+      const nextToken = listResult.pagination?.next;
+
+      yield { ids, token, nextToken };
+
+      if (!nextToken || ids.length === 0) return;
+      token = nextToken;
+    }
+  }
+
+  // Fetch in batches of 50 to dodge "URI too long" errors, keeping the order of the requested IDs
+  private async fetchRecords(
+    indexNamespace: Index<RecordMetadata>,
+    ids: string[],
+    includeValues: boolean = false
+  ): Promise<DocumentRecord[]> {
+    const records: DocumentRecord[] = [];
+
+    for (let i = 0; i < ids.length; i += 50) {
+      const batch = ids.slice(i, i + 50);
+      const batchResult = await indexNamespace.fetch(batch);
+
+      for (const id of batch) {
+        const vector = batchResult.records?.[id];
+        if (!vector) continue; // Deleted between list and fetch. It happens.
+
+        records.push({
+          id,
+          score: 1.0,
+          metadata: vector.metadata || {},
+          values: includeValues ? vector.values : [],
+          ...(includeValues && vector.sparseValues ? { sparseValues: vector.sparseValues } : {})
+        });
+      }
+    }
+
+    return records;
+  }
+
+
+  /**
+   * "More like this": nearest neighbours of a stored record, using its own vector as the query
+   */
+  async findSimilarDocuments(indexName: string, documentId: string, options: {
+    namespace?: string;
+    topK?: number;
+    filter?: MetadataFilter;
+  } = {}): Promise<SimilarDocuments> {
+    if (options.filter) MetadataFilterEngine.validate(options.filter);
+    const topK = Math.min(Math.max(options.topK || 10, 1), 1000); // Pinecone caps topK at 1000 with metadata
+
+    try {
+      const index = await this.getIndex(indexName);
+      const indexNamespace = index.namespace(options.namespace || '');
+
+      const fetchResult = await indexNamespace.fetch([documentId]);
+      const record = fetchResult.records[documentId];
+
+      if (!record) {
+        throw new NotFoundError(`Document ${documentId} not found. Hard to find its friends without it.`);
+      }
+
+      // Ask for one extra, since the document is its own nearest neighbour
+      const neighbours = await this.queryByVector(indexName, record.values, {
+        namespace: options.namespace,
+        topK: topK + 1,
+        filter: options.filter
+      });
+      const matches = neighbours.filter(match => match.id !== documentId).slice(0, topK);
+
+      console.log(`Found ${matches.length} neighbours for ${documentId}. Birds of a feather.`);
+      return { source: { id: documentId, metadata: record.metadata || {} }, matches };
+    } catch (error: any) {
+      if (error instanceof HttpError) throw error;
+      console.error(`Failed to find documents similar to ${documentId}:`, error);
+      throw new Error(`Similarity search failed for ${documentId}: ${error.message}`);
+    }
+  }
+
+  // Plain nearest-neighbour query, optionally narrowed by a metadata filter
+  async queryByVector(indexName: string, vector: number[], options: {
+    namespace?: string;
+    topK?: number;
+    filter?: MetadataFilter;
+  } = {}): Promise<ScoredDocument[]> {
+    const index = await this.getIndex(indexName);
+    const queryResult = await index.namespace(options.namespace || '').query({
+      vector,
+      topK: Math.min(Math.max(options.topK || 10, 1), 1000),
+      includeMetadata: true,
+      ...(MetadataFilterEngine.isEmpty(options.filter) ? {} : { filter: options.filter })
+    });
+
+    return queryResult.matches.map(match => ({
+      id: match.id,
+      score: match.score ?? 0,
+      metadata: match.metadata || {}
+    }));
+  }
+
+  /**
+   * Upsert records in batches that respect Pinecone's request-size limits.
+   * A failed batch doesn't stop the rest - callers get the failed IDs back to report on.
+   */
+  async upsertRecords(indexName: string, records: PineconeRecord[], namespace?: string): Promise<UpsertResult> {
+    const index = await this.getIndex(indexName);
+    const indexNamespace = index.namespace(namespace || '');
+    const batches = this.batchForUpsert(records);
+    const failedBatches: UpsertResult['failedBatches'] = [];
+    let upserted = 0;
+
+    for (const batch of batches) {
+      try {
+        await indexNamespace.upsert(batch);
+        upserted += batch.length;
+      } catch (error: any) {
+        console.error(`Upsert batch of ${batch.length} records failed:`, error);
+        failedBatches.push({ ids: batch.map(record => record.id), error: error.message || String(error) });
+      }
+    }
+
+    console.log(`Upserted ${upserted} of ${records.length} records in ${batches.length} batches. Pinecone is slightly fuller.`);
+    return { upserted, batches: batches.length, failedBatches };
+  }
+
+  private batchForUpsert(records: PineconeRecord[]): PineconeRecord[][] {
+    const batches: PineconeRecord[][] = [];
+    let current: PineconeRecord[] = [];
+    let currentBytes = 0;
+
+    for (const record of records) {
+      const recordBytes = Buffer.byteLength(JSON.stringify(record));
+
+      if (current.length > 0 && (current.length >= MAX_UPSERT_RECORDS || currentBytes + recordBytes > MAX_UPSERT_BYTES)) {
+        batches.push(current);
+        current = [];
+        currentBytes = 0;
+      }
+
+      current.push(record);
+      currentBytes += recordBytes;
+    }
+
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
 
   async deleteDocument(indexName: string, id: string, namespace?: string) {
     try {
@@ -153,7 +709,12 @@ export class PineconeService {
   async deleteMany(indexName: string, ids: string[], namespace?: string) {
     try {
       const index = await this.getIndex(indexName);
-      await index.namespace(namespace || '').deleteMany(ids);
+      const indexNamespace = index.namespace(namespace || '');
+
+      // Pinecone accepts at most 1000 IDs per delete request
+      for (let i = 0; i < ids.length; i += 1000) {
+        await indexNamespace.deleteMany(ids.slice(i, i + 1000));
+      }
       console.log(`Deleted ${ids.length} documents. Mass destruction complete.`);
       return { success: true, deletedCount: ids.length };
     } catch (error) {
@@ -188,41 +749,43 @@ export class PineconeService {
     }
   }
 
-  async findDuplicates(indexName: string, _threshold: number = 0.99, namespace?: string) {
+  // Exact metadata matches only - the threshold is unused here. Near-duplicate vectors are
+  // deduplicationService's job (similarity=vector), which returns groups the delete flow understands.
+  async findDuplicates(indexName: string, namespace?: string, maxDocuments?: number) {
     try {
-      // This is a simplified duplicate detection
-      // In production, you'd want to do this in batches with proper vector comparison
-      const documents = await this.queryDocuments(indexName, {
-        namespace,
-        topK: 1000,
-        includeMetadata: true
-      });
+      const totalDocuments = await this.countNamespaceRecords(indexName, namespace || '');
+
+      // Exact metadata matches only, so a hash per document is all we need to keep around.
+      // Metadata is only stored once a second member shows up (and it's identical by definition).
+      const groups = new Map<string, { ids: string[]; metadata?: RecordMetadata }>();
+      let scannedDocuments = 0;
+
+      scan: for await (const batch of this.scanNamespace(indexName, { namespace })) {
+        for (const doc of batch.records) {
+          if (maxDocuments && scannedDocuments >= maxDocuments) break scan;
+          scannedDocuments++;
+
+          const hash = createHash('sha1').update(JSON.stringify(doc.metadata)).digest('hex');
+          const group = groups.get(hash);
+
+          if (!group) {
+            groups.set(hash, { ids: [doc.id] });
+          } else {
+            group.ids.push(doc.id);
+            group.metadata = group.metadata || doc.metadata;
+          }
+        }
+      }
 
-      const duplicates: Array<{ids: string[], metadata: any}> = [];
-      const processed = new Set<string>();
-
-      // Group by metadata similarity (simplified)
-      for (const doc of documents) {
-        if (processed.has(doc.id)) continue;
-
-        const similar = documents.filter(d =>
-          d.id !== doc.id &&
-          !processed.has(d.id) &&
-          JSON.stringify(d.metadata) === JSON.stringify(doc.metadata)
-        );
-
-        if (similar.length > 0) {
-          duplicates.push({
-            ids: [doc.id, ...similar.map(s => s.id)],
-            metadata: doc.metadata
-          });
-          processed.add(doc.id);
-          similar.forEach(s => processed.add(s.id));
+      const duplicates: Array<{ ids: string[], metadata: any }> = [];
+      for (const group of groups.values()) {
+        if (group.ids.length > 1) {
+          duplicates.push({ ids: group.ids, metadata: group.metadata });
         }
       }
 
-      console.log(`Found ${duplicates.length} duplicate groups. Spring cleaning time!`);
-      return duplicates;
+      console.log(`Found ${duplicates.length} duplicate groups after scanning ${scannedDocuments} of ${totalDocuments} documents. Spring cleaning time!`);
+      return { duplicates, scannedDocuments, totalDocuments };
     } catch (error) {
       console.error('Failed to find duplicates:', error);
       throw error;
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import profileHistoryService from './profileHistoryService';
+import { MetadataProfile } from './metadataAnalyzer';
+import { ValidationError } from '../utils/errors';
+
+const profile = (generatedAt: string, presence: number): MetadataProfile => ({
+  indexName: 'docs',
+  namespace: 'en',
+  totalDocuments: 10,
+  analyzedDocuments: 10,
+  keyProfiles: [{
+    keyName: 'title',
+    presence,
+    dataTypeAnalysis: { primaryType: 'text', confidence: 60, patterns: [], statistics: { uniqueCount: 10, totalCount: 10, nullCount: 0, completeness: 100, uniqueness: 100 } },
+    sampleValues: [],
+    mostCommonValues: [],
+    uniqueValueCount: 10,
+    valueTypes: { string: 10 },
+    documentIds: ['a']
+  }],
+  generatedAt,
+  analysisMetrics: { avgKeysPerDocument: 1, minKeysPerDocument: 1, maxKeysPerDocument: 1, totalUniqueKeys: 1, dataQualityScore: 80 }
+});
+
+describe('ProfileHistoryService (local store)', () => {
+  let dir: string;
+  let ids: string[];
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'profiles-'));
+    process.env.DATA_DIR = dir;
+    delete process.env.DATABASE_URL;
+
+    // Saved out of order on purpose - only generatedAt decides what's older
+    const saved = [];
+    for (const [generatedAt, presence] of [['2024-03-01T00:00:00.000Z', 70], ['2024-01-01T00:00:00.000Z', 50], ['2024-02-01T00:00:00.000Z', 60]] as const) {
+      saved.push(await profileHistoryService.saveProfile('docs', 'en', profile(generatedAt, presence)));
+    }
+    ids = [saved[1], saved[2], saved[0]].map(summary => summary.profileId); // Oldest first
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('drops documentIds when saving', async () => {
+    expect((await profileHistoryService.getProfile('docs', ids[0])).profile.keyProfiles[0].documentIds).toEqual([]);
+  });
+
+  it('compares the latest two by default', async () => {
+    const drift = await profileHistoryService.compareProfiles('docs', 'en');
+    expect([drift.base.profileId, drift.target.profileId]).toEqual([ids[1], ids[2]]);
+    expect(drift.presenceChanges).toEqual([{ keyName: 'title', before: 60, after: 70, delta: 10 }]);
+  });
+
+  it('picks the latest profile older than a given target', async () => {
+    const drift = await profileHistoryService.compareProfiles('docs', 'en', undefined, ids[1]);
+    expect([drift.base.profileId, drift.target.profileId]).toEqual([ids[0], ids[1]]);
+  });
+
+  it('picks the latest profile as target only when it is newer than the base', async () => {
+    const drift = await profileHistoryService.compareProfiles('docs', 'en', ids[0]);
+    expect([drift.base.profileId, drift.target.profileId]).toEqual([ids[0], ids[2]]);
+
+    await expect(profileHistoryService.compareProfiles('docs', 'en', ids[2])).rejects.toThrow(/is newer than/);
+  });
+
+  it('refuses a target with nothing older', async () => {
+    await expect(profileHistoryService.compareProfiles('docs', 'en', undefined, ids[0])).rejects.toThrow(ValidationError);
+  });
+
+  it('lists newest first, optionally before a timestamp', async () => {
+    expect((await profileHistoryService.listProfiles('docs', 'en')).map(entry => entry.profileId)).toEqual([ids[2], ids[1], ids[0]]);
+    expect((await profileHistoryService.listProfiles('docs', 'en', 50, '2024-02-01T00:00:00.000Z')).map(entry => entry.profileId)).toEqual([ids[0]]);
+  });
+});
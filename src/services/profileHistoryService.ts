@@ -0,0 +1,349 @@
+// Metadata profile history - keeps every profile we compute, so two of them can be compared for drift
+// Postgres when DATABASE_URL is set, JSON files under DATA_DIR otherwise
+
+import { randomBytes } from 'crypto';
+import { Pool } from 'pg';
+import { MetadataProfile } from './metadataAnalyzer';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { dataPath, listFiles, readJson, writeJson } from '../utils/localStore';
+
+export interface ProfileSummary {
+  profileId: string;
+  indexName: string;
+  namespace: string;
+  generatedAt: string;
+  analyzedDocuments: number;
+  totalDocuments: number;
+  totalUniqueKeys: number;
+  dataQualityScore: number;
+}
+
+export interface StoredProfile extends ProfileSummary {
+  profile: MetadataProfile; // documentIds are dropped before saving - they'd dwarf everything else
+}
+
+export interface DriftOptions {
+  presenceThreshold?: number; // Percentage points a key's presence must move to count
+  qualityThreshold?: number; // Same for quality scores
+}
+
+export interface ScoreChange {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ProfileDrift {
+  indexName: string;
+  base: ProfileSummary;
+  target: ProfileSummary;
+  hasDrift: boolean;
+  keysAdded: Array<{ keyName: string; presence: number }>;
+  keysRemoved: Array<{ keyName: string; presence: number }>; // Presence in the base profile
+  presenceChanges: Array<{ keyName: string } & ScoreChange>;
+  typeChanges: Array<{ keyName: string; before: string; after: string }>;
+  qualityChanges: {
+    overall: ScoreChange;
+    keys: Array<{ keyName: string } & ScoreChange>;
+  };
+}
+
+interface ProfileStore {
+  save(entry: StoredProfile): Promise<void>;
+  list(indexName: string, namespace: string, limit: number, before?: string): Promise<ProfileSummary[]>; // Newest first, generatedAt < before
+  get(indexName: string, profileId: string): Promise<StoredProfile | undefined>;
+}
+
+const PROFILE_ID_PATTERN = /^profile-[\w-]+$/;
+
+class PostgresProfileStore implements ProfileStore {
+  private pool: Pool;
+  private ready?: Promise<void>;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString, max: 5 });
+    // An idle client losing its connection emits 'error' on the pool - unhandled, that takes the whole server down
+    this.pool.on('error', error => {
+      console.error('Profile history database connection dropped (the pool will reconnect):', error.message);
+    });
+  }
+
+  async save(entry: StoredProfile): Promise<void> {
+    await this.init();
+    await this.pool.query(
+      `INSERT INTO metadata_profiles
+        (profile_id, index_name, namespace, generated_at, analyzed_documents, total_documents, total_unique_keys, data_quality_score, profile)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [entry.profileId, entry.indexName, entry.namespace, entry.generatedAt, entry.analyzedDocuments,
+        entry.totalDocuments, entry.totalUniqueKeys, entry.dataQualityScore, JSON.stringify(entry.profile)]
+    );
+  }
+
+  async list(indexName: string, namespace: string, limit: number, before?: string): Promise<ProfileSummary[]> {
+    await this.init();
+    const { rows } = await this.pool.query(
+      `SELECT profile_id, index_name, namespace, generated_at, analyzed_documents, total_documents, total_unique_keys, data_quality_score
+       FROM metadata_profiles WHERE index_name = $1 AND namespace = $2 AND ($4::timestamptz IS NULL OR generated_at < $4)
+       ORDER BY generated_at DESC LIMIT $3`,
+      [indexName, namespace, limit, before ?? null]
+    );
+    return rows.map(row => this.toSummary(row));
+  }
+
+  async get(indexName: string, profileId: string): Promise<StoredProfile | undefined> {
+    await this.init();
+    const { rows } = await this.pool.query(
+      'SELECT * FROM metadata_profiles WHERE index_name = $1 AND profile_id = $2',
+      [indexName, profileId]
+    );
+    return rows[0] ? { ...this.toSummary(rows[0]), profile: rows[0].profile } : undefined;
+  }
+
+  // Create the table on first use, so there's no migration step to forget
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS metadata_profiles (
+          profile_id TEXT PRIMARY KEY,
+          index_name TEXT NOT NULL,
+          namespace TEXT NOT NULL,
+          generated_at TIMESTAMPTZ NOT NULL,
+          analyzed_documents INTEGER NOT NULL,
+          total_documents INTEGER NOT NULL,
+          total_unique_keys INTEGER NOT NULL,
+          data_quality_score DOUBLE PRECISION NOT NULL,
+          profile JSONB NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS metadata_profiles_lookup ON metadata_profiles (index_name, namespace, generated_at DESC);
+      `).then(() => undefined);
+
+      // Don't cache a failure - the database may just not have been up yet
+      this.ready.catch(() => { this.ready = undefined; });
+    }
+    return this.ready;
+  }
+
+  private toSummary(row: any): ProfileSummary {
+    return {
+      profileId: row.profile_id,
+      indexName: row.index_name,
+      namespace: row.namespace,
+      generatedAt: new Date(row.generated_at).toISOString(),
+      analyzedDocuments: row.analyzed_documents,
+      totalDocuments: row.total_documents,
+      totalUniqueKeys: row.total_unique_keys,
+      dataQualityScore: row.data_quality_score
+    };
+  }
+}
+
+class LocalProfileStore implements ProfileStore {
+
+  async save(entry: StoredProfile): Promise<void> {
+    await writeJson(dataPath('metadata-profiles', entry.indexName, `${entry.profileId}.json`), entry);
+  }
+
+  async list(indexName: string, namespace: string, limit: number, before?: string): Promise<ProfileSummary[]> {
+    const summaries: ProfileSummary[] = [];
+
+    for (const file of await listFiles(dataPath('metadata-profiles', indexName), '.json')) {
+      const entry = await readJson<StoredProfile>(file);
+      if (!entry || entry.namespace !== namespace) continue;
+      if (before !== undefined && entry.generatedAt >= before) continue;
+      const { profile: _profile, ...summary } = entry;
+      summaries.push(summary);
+    }
+
+    return summaries
+      .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))
+      .slice(0, limit);
+  }
+
+  async get(indexName: string, profileId: string): Promise<StoredProfile | undefined> {
+    return readJson<StoredProfile>(dataPath('metadata-profiles', indexName, `${profileId}.json`));
+  }
+}
+
+export class ProfileHistoryService {
+  private store?: ProfileStore;
+
+  /**
+   * Save a freshly computed profile and return its summary (with the profileId to compare against later)
+   */
+  async saveProfile(indexName: string, namespace: string, profile: MetadataProfile): Promise<ProfileSummary> {
+    const profileId = `profile-${profile.generatedAt.replace(/[-:.]/g, '')}-${randomBytes(3).toString('hex')}`;
+    const summary: ProfileSummary = {
+      profileId,
+      indexName,
+      namespace,
+      generatedAt: profile.generatedAt,
+      analyzedDocuments: profile.analyzedDocuments,
+      totalDocuments: profile.totalDocuments,
+      totalUniqueKeys: profile.analysisMetrics.totalUniqueKeys,
+      dataQualityScore: profile.analysisMetrics.dataQualityScore
+    };
+
+    await this.getStore().save({
+      ...summary,
+      profile: {
+        ...profile,
+        keyProfiles: profile.keyProfiles.map(keyProfile => ({ ...keyProfile, documentIds: [] }))
+      }
+    });
+
+    console.log(`🗄️ Profile ${profileId} saved for ${indexName}:${(namespace || '(no namespace)')}`);
+    return summary;
+  }
+
+  async listProfiles(indexName: string, namespace: string, limit: number = 50, before?: string): Promise<ProfileSummary[]> {
+    return this.getStore().list(indexName, namespace, Math.min(Math.max(limit, 1), 500), before);
+  }
+
+  async getProfile(indexName: string, profileId: string): Promise<StoredProfile> {
+    if (!PROFILE_ID_PATTERN.test(profileId)) {
+      throw new ValidationError(`Invalid profile id "${profileId}"`);
+    }
+
+    const entry = await this.getStore().get(indexName, profileId);
+    if (!entry) {
+      throw new NotFoundError(`Profile ${profileId} not found for index ${indexName}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Compare two stored profiles. Without ids, the latest profile of the namespace is compared
+   * with the one before it - which is what a scheduled "did ingestion break?" check wants.
+   * With only one id, the other side is picked so the report always runs forwards in time:
+   * a target gets the latest profile before it, a base gets the latest profile, if that one is newer.
+   */
+  async compareProfiles(
+    indexName: string,
+    namespace: string,
+    baseId?: string,
+    targetId?: string,
+    options: DriftOptions = {}
+  ): Promise<ProfileDrift> {
+    let base: StoredProfile;
+    let target: StoredProfile;
+
+    if (baseId && targetId) {
+      [base, target] = await Promise.all([this.getProfile(indexName, baseId), this.getProfile(indexName, targetId)]);
+    } else if (targetId) {
+      target = await this.getProfile(indexName, targetId);
+      const [previous] = await this.listProfiles(indexName, target.namespace, 1, target.generatedAt);
+      if (!previous) {
+        throw new ValidationError(`No saved profile of ${indexName}:${(target.namespace || '(no namespace)')} is older than ${targetId}. Nothing to compare it with.`);
+      }
+      base = await this.getProfile(indexName, previous.profileId);
+    } else if (baseId) {
+      base = await this.getProfile(indexName, baseId);
+      const [latest] = await this.listProfiles(indexName, base.namespace, 1);
+      if (!latest || latest.generatedAt <= base.generatedAt) {
+        throw new ValidationError(`No saved profile of ${indexName}:${(base.namespace || '(no namespace)')} is newer than ${baseId}. Run another analysis first.`);
+      }
+      target = await this.getProfile(indexName, latest.profileId);
+    } else {
+      const history = await this.listProfiles(indexName, namespace, 2);
+      if (history.length < 2) {
+        throw new ValidationError(
+          `Need two saved profiles of ${indexName}:${(namespace || '(no namespace)')} to compare, found ${history.length}. Run another analysis first.`
+        );
+      }
+
+      [base, target] = await Promise.all([
+        this.getProfile(indexName, history[1].profileId),
+        this.getProfile(indexName, history[0].profileId)
+      ]);
+    }
+
+    return this.diff(base, target, options);
+  }
+
+  private diff(base: StoredProfile, target: StoredProfile, options: DriftOptions): ProfileDrift {
+    const presenceThreshold = options.presenceThreshold ?? 5;
+    const qualityThreshold = options.qualityThreshold ?? 5;
+
+    for (const [name, value] of [['presenceThreshold', presenceThreshold], ['qualityThreshold', qualityThreshold]] as const) {
+      if (!Number.isFinite(value) || value < 0 || value > 100) {
+        throw new ValidationError(`${name} must be between 0 and 100 percentage points`);
+      }
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const change = (before: number, after: number): ScoreChange => ({ before: round(before), after: round(after), delta: round(after - before) });
+    const keyQuality = (keyProfile: MetadataProfile['keyProfiles'][number]) =>
+      (keyProfile.dataTypeAnalysis.statistics.completeness + keyProfile.dataTypeAnalysis.confidence) / 2;
+
+    const baseKeys = new Map(base.profile.keyProfiles.map(keyProfile => [keyProfile.keyName, keyProfile]));
+    const targetKeys = new Map(target.profile.keyProfiles.map(keyProfile => [keyProfile.keyName, keyProfile]));
+
+    const drift: ProfileDrift = {
+      indexName: base.indexName,
+      base: this.summaryOf(base),
+      target: this.summaryOf(target),
+      hasDrift: false,
+      keysAdded: [],
+      keysRemoved: [],
+      presenceChanges: [],
+      typeChanges: [],
+      qualityChanges: {
+        overall: change(base.dataQualityScore, target.dataQualityScore),
+        keys: []
+      }
+    };
+
+    for (const [keyName, before] of baseKeys) {
+      const after = targetKeys.get(keyName);
+      if (!after) {
+        drift.keysRemoved.push({ keyName, presence: round(before.presence) });
+        continue;
+      }
+
+      const presence = change(before.presence, after.presence);
+      if (Math.abs(presence.delta) >= presenceThreshold) drift.presenceChanges.push({ keyName, ...presence });
+
+      if (before.dataTypeAnalysis.primaryType !== after.dataTypeAnalysis.primaryType) {
+        drift.typeChanges.push({ keyName, before: this.typeLabel(before), after: this.typeLabel(after) });
+      }
+
+      const quality = change(keyQuality(before), keyQuality(after));
+      if (Math.abs(quality.delta) >= qualityThreshold) drift.qualityChanges.keys.push({ keyName, ...quality });
+    }
+
+    for (const [keyName, after] of targetKeys) {
+      if (!baseKeys.has(keyName)) drift.keysAdded.push({ keyName, presence: round(after.presence) });
+    }
+
+    // Biggest drops first - a key that stopped being written is the headline
+    drift.presenceChanges.sort((a, b) => a.delta - b.delta);
+    drift.qualityChanges.keys.sort((a, b) => a.delta - b.delta);
+
+    drift.hasDrift = drift.keysAdded.length > 0 || drift.keysRemoved.length > 0 ||
+      drift.presenceChanges.length > 0 || drift.typeChanges.length > 0 ||
+      drift.qualityChanges.keys.length > 0 || Math.abs(drift.qualityChanges.overall.delta) >= qualityThreshold;
+
+    return drift;
+  }
+
+  private summaryOf(entry: StoredProfile): ProfileSummary {
+    const { profile: _profile, ...summary } = entry;
+    return summary;
+  }
+
+  private typeLabel(keyProfile: MetadataProfile['keyProfiles'][number]): string {
+    const { primaryType, subType } = keyProfile.dataTypeAnalysis;
+    return subType ? `${primaryType}/${subType}` : primaryType;
+  }
+
+  private getStore(): ProfileStore {
+    if (!this.store) {
+      const databaseUrl = process.env.DATABASE_URL;
+      this.store = databaseUrl ? new PostgresProfileStore(databaseUrl) : new LocalProfileStore();
+      console.log(`Profile history stored in ${databaseUrl ? 'Postgres' : 'DATA_DIR'}`);
+    }
+    return this.store;
+  }
+}
+
+export default new ProfileHistoryService();
@@ -0,0 +1,55 @@
+import schemaService from './schemaService';
+import { MetadataKeyProfile, MetadataProfile } from './metadataAnalyzer';
+
+jest.mock('./metadataAnalyzer', () => ({ __esModule: true, default: {} }));
+
+const key = (keyName: string, overrides: Partial<MetadataKeyProfile> = {}): MetadataKeyProfile => ({
+  keyName,
+  presence: 100,
+  dataTypeAnalysis: { primaryType: 'text', subType: 'short', confidence: 60, patterns: [], statistics: { uniqueCount: 2, totalCount: 2, nullCount: 0, completeness: 100, uniqueness: 100 } },
+  sampleValues: [],
+  mostCommonValues: [],
+  uniqueValueCount: 2,
+  valueTypes: { string: 2 },
+  documentIds: [],
+  ...overrides
+});
+
+const profile = (namespace: string, keyProfiles: MetadataKeyProfile[]): MetadataProfile => ({
+  indexName: 'support docs',
+  namespace,
+  totalDocuments: 2,
+  analyzedDocuments: 2,
+  keyProfiles,
+  generatedAt: '2024-05-01T00:00:00.000Z',
+  analysisMetrics: { avgKeysPerDocument: 1, minKeysPerDocument: 1, maxKeysPerDocument: 1, totalUniqueKeys: 1, dataQualityScore: 100 }
+});
+
+const datetime = (values: string[]) => key('published', {
+  dataTypeAnalysis: { ...key('x').dataTypeAnalysis, primaryType: 'semantic', subType: 'datetime' },
+  sampleValues: values
+});
+
+describe('SchemaService.toJsonSchema', () => {
+  it('builds a valid URI for $id, with a fixed token for the default namespace', () => {
+    const unnamed = schemaService.toJsonSchema(schemaService.fromProfile(profile('(no namespace)', [key('title')])));
+    const named = schemaService.toJsonSchema(schemaService.fromProfile(profile('en/us #1', [key('title')])));
+
+    expect(unnamed.$id).toBe('pinecone://support%20docs/__default__/metadata');
+    expect(named.$id).toBe('pinecone://support%20docs/en%2Fus%20%231/metadata');
+    expect(() => new URL(unnamed.$id)).not.toThrow();
+  });
+
+  it('claims date-time only when every sampled value is RFC 3339', () => {
+    const rfc = schemaService.fromProfile(profile('en', [datetime(['2024-05-01T10:00:00Z', '2024-05-02T10:00:00.5+02:00'])]));
+    const loose = schemaService.fromProfile(profile('en', [datetime(['2024-05-01T10:00:00Z', '05/02/2024'])]));
+
+    expect(rfc.keys[0].format).toBe('date-time');
+    expect(loose.keys[0].format).toBeUndefined();
+  });
+
+  it('marks keys required above the threshold', () => {
+    const schema = schemaService.fromProfile(profile('en', [key('title'), key('summary', { presence: 80 })]), { requiredThreshold: 90 });
+    expect(schemaService.toJsonSchema(schema).required).toEqual(['title']);
+  });
+});
@@ -0,0 +1,206 @@
+// Schema inference - turns a metadata profile into something an ingestion pipeline can validate against
+// Output flavours: JSON Schema (draft 2020-12) and a TypeScript module exporting a zod schema
+
+import metadataAnalyzer, { MetadataKeyProfile, MetadataProfile, MetadataValueType } from './metadataAnalyzer';
+import { ValidationError } from '../utils/errors';
+
+export type SchemaFormat = 'json-schema' | 'zod';
+
+export const SCHEMA_FORMATS: SchemaFormat[] = ['json-schema', 'zod'];
+
+export interface SchemaOptions {
+  maxDocuments?: number; // Passed to the profiler, 0 = whole namespace
+  requiredThreshold?: number; // Presence % above which a key is required
+  includeEnums?: boolean; // Category keys with few values become enums
+  includeFormats?: boolean; // email/url/uuid/date-time detected by DataTypeDetector
+}
+
+export interface InferredKey {
+  name: string;
+  types: Array<'string' | 'integer' | 'number' | 'boolean' | 'string[]'>;
+  required: boolean;
+  presence: number;
+  format?: 'email' | 'uri' | 'uuid' | 'date-time';
+  enum?: string[];
+}
+
+export interface InferredSchema {
+  indexName: string;
+  namespace: string;
+  analyzedDocuments: number;
+  requiredThreshold: number;
+  generatedAt: string;
+  keys: InferredKey[];
+}
+
+const MAX_ENUM_VALUES = 10; // mostCommonValues keeps the top 10, so that's all we can vouch for
+const FORMAT_BY_SUBTYPE: Record<string, InferredKey['format']> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time'
+};
+// What "format": "date-time" promises - DataTypeDetector's datetime also covers "03/15/2024" and friends
+const RFC3339_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const DEFAULT_NAMESPACE_SEGMENT = '__default__'; // What Pinecone itself calls the unnamed namespace
+
+export class SchemaService {
+
+  async inferSchema(indexName: string, namespace: string, options: SchemaOptions = {}): Promise<InferredSchema> {
+    const requiredThreshold = options.requiredThreshold ?? 95;
+    if (!Number.isFinite(requiredThreshold) || requiredThreshold < 0 || requiredThreshold > 100) {
+      throw new ValidationError('requiredThreshold must be a percentage between 0 and 100');
+    }
+
+    const profile = await metadataAnalyzer.analyzeNamespaceMetadata(indexName, namespace, options.maxDocuments ?? 1000);
+    return this.fromProfile(profile, { ...options, requiredThreshold });
+  }
+
+  fromProfile(profile: MetadataProfile, options: SchemaOptions = {}): InferredSchema {
+    const requiredThreshold = options.requiredThreshold ?? 95;
+
+    return {
+      indexName: profile.indexName,
+      namespace: profile.namespace,
+      analyzedDocuments: profile.analyzedDocuments,
+      requiredThreshold,
+      generatedAt: new Date().toISOString(),
+      keys: profile.keyProfiles
+        .map(keyProfile => this.inferKey(keyProfile, requiredThreshold, options))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    };
+  }
+
+  toJsonSchema(schema: InferredSchema): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    for (const key of schema.keys) {
+      const variants = key.types.map(type => {
+        if (type === 'string[]') return { type: 'array', items: { type: 'string' } };
+        if (type !== 'string') return { type };
+        return {
+          type: 'string',
+          ...(key.format ? { format: key.format } : {}),
+          ...(key.enum ? { enum: key.enum } : {})
+        };
+      });
+
+      properties[key.name] = {
+        ...(variants.length === 1 ? variants[0] : { anyOf: variants }),
+        description: `Present on ${key.presence}% of analyzed documents`
+      };
+    }
+
+    return {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: this.schemaId(schema),
+      title: `${schema.indexName} ${schema.namespace} metadata`,
+      description: `Inferred from ${schema.analyzedDocuments} documents on ${schema.generatedAt}. Keys present on more than ${schema.requiredThreshold}% are required.`,
+      type: 'object',
+      properties,
+      required: schema.keys.filter(key => key.required).map(key => key.name),
+      additionalProperties: true
+    };
+  }
+
+  toZod(schema: InferredSchema): string {
+    const typeName = this.typeName(schema.indexName, schema.namespace);
+    const fields = schema.keys.map(key => {
+      const variants = key.types.map(type => this.zodType(type, key));
+      let expression = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+      if (!key.required) expression += '.optional()';
+
+      const property = /^[A-Za-z_$][\w$]*$/.test(key.name) ? key.name : JSON.stringify(key.name);
+      return `  ${property}: ${expression}, // ${key.presence}% present`;
+    });
+
+    return [
+      `// Inferred from ${schema.analyzedDocuments} documents in ${schema.indexName}:${schema.namespace} on ${schema.generatedAt}`,
+      `// Keys present on more than ${schema.requiredThreshold}% of documents are required. Regenerate rather than hand-edit.`,
+      '',
+      `import { z } from 'zod';`,
+      '',
+      `export const ${typeName}Schema = z.object({`,
+      ...fields,
+      '}).passthrough();',
+      '',
+      `export type ${typeName} = z.infer<typeof ${typeName}Schema>;`,
+      ''
+    ].join('\n');
+  }
+
+  private inferKey(keyProfile: MetadataKeyProfile, requiredThreshold: number, options: SchemaOptions): InferredKey {
+    const { dataTypeAnalysis, valueTypes } = keyProfile;
+    let seen = (Object.keys(valueTypes) as MetadataValueType[]).filter(type => (valueTypes[type] || 0) > 0);
+
+    // 1, 2 and 3.5 in one key is just "number"
+    if (seen.includes('integer') && seen.includes('number')) {
+      seen = seen.filter(type => type !== 'integer');
+    }
+
+    const types = seen.map(type => type === 'list' ? 'string[]' as const : type);
+
+    const key: InferredKey = {
+      name: keyProfile.keyName,
+      types: types.length > 0 ? types : ['string'],
+      required: keyProfile.presence > requiredThreshold,
+      presence: Math.round(keyProfile.presence * 100) / 100
+    };
+
+    const stringOnly = seen.length === 1 && seen[0] === 'string';
+
+    if (options.includeFormats !== false && stringOnly && dataTypeAnalysis.subType && FORMAT_BY_SUBTYPE[dataTypeAnalysis.subType]) {
+      const format = FORMAT_BY_SUBTYPE[dataTypeAnalysis.subType];
+      if (format !== 'date-time' || this.allRfc3339(keyProfile)) key.format = format;
+    }
+
+    if (options.includeEnums && stringOnly && dataTypeAnalysis.subType === 'category' &&
+      keyProfile.uniqueValueCount <= MAX_ENUM_VALUES) {
+      key.enum = keyProfile.mostCommonValues.map(entry => String(entry.value)).sort();
+    }
+
+    return key;
+  }
+
+  private zodType(type: InferredKey['types'][number], key: InferredKey): string {
+    switch (type) {
+      case 'string[]':
+        return 'z.array(z.string())';
+      case 'integer':
+        return 'z.number().int()';
+      case 'number':
+        return 'z.number()';
+      case 'boolean':
+        return 'z.boolean()';
+      default:
+        if (key.enum) return `z.enum([${key.enum.map(value => JSON.stringify(value)).join(', ')}])`;
+        if (key.format === 'email') return 'z.string().email()';
+        if (key.format === 'uri') return 'z.string().url()';
+        if (key.format === 'uuid') return 'z.string().uuid()';
+        if (key.format === 'date-time') return 'z.string().datetime({ offset: true })';
+        return 'z.string()';
+    }
+  }
+
+  // Only sampled values to go on, so a date-time format is claimed when none of them contradicts it
+  private allRfc3339(keyProfile: MetadataKeyProfile): boolean {
+    const values = [...keyProfile.sampleValues, ...keyProfile.mostCommonValues.map(entry => entry.value)];
+    return values.length > 0 && values.every(value =>
+      typeof value === 'string' && RFC3339_DATE_TIME.test(value) && !Number.isNaN(Date.parse(value)));
+  }
+
+  // $id has to be a valid URI reference: "(no namespace)" isn't one, and namespaces can hold any character
+  private schemaId(schema: InferredSchema): string {
+    const namespace = schema.namespace === '(no namespace)' ? DEFAULT_NAMESPACE_SEGMENT : schema.namespace;
+    return `pinecone://${encodeURIComponent(schema.indexName)}/${encodeURIComponent(namespace)}/metadata`;
+  }
+
+  // "support-docs" + "en" -> "SupportDocsEnMetadata"
+  private typeName(indexName: string, namespace: string): string {
+    const words = `${indexName} ${namespace === '(no namespace)' ? '' : namespace} metadata`.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const name = words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+    return /^[0-9]/.test(name) ? `Index${name}` : name;
+  }
+}
+
+export default new SchemaService();
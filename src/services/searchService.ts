@@ -0,0 +1,49 @@
+// Free-text semantic search - type a question, see which chunks your RAG app would retrieve
+
+import { createEmbeddingProvider, assertDimensionMatches } from './embeddingProvider';
+import pineconeService, { ScoredDocument } from './pineconeService';
+import { MetadataFilter } from '../utils/metadataFilter';
+import { ValidationError } from '../utils/errors';
+
+export interface TextSearchResult {
+  query: string;
+  provider: string;
+  dimension: number;
+  namespace: string;
+  matches: ScoredDocument[];
+}
+
+export class SearchService {
+
+  /**
+   * Embed the text with the configured provider and run a nearest-neighbour query
+   */
+  async searchByText(indexName: string, text: string, options: {
+    namespace?: string;
+    topK?: number;
+    filter?: MetadataFilter;
+  } = {}): Promise<TextSearchResult> {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new ValidationError('Search text is required. Even Jean-Claude can\'t search for nothing.');
+    }
+
+    const description = await pineconeService.getIndexDescription(indexName);
+    const provider = createEmbeddingProvider(description.dimension);
+    assertDimensionMatches(provider, indexName, description.dimension);
+
+    console.log(`🔎 Embedding query with the ${provider.name} provider (${provider.dimension} dimensions)`);
+    const [vector] = await provider.embed([text]);
+
+    const matches = await pineconeService.queryByVector(indexName, vector, options);
+
+    return {
+      query: text,
+      provider: provider.name,
+      dimension: provider.dimension,
+      namespace: options.namespace || '(no namespace)',
+      matches
+    };
+  }
+}
+
+export default new SearchService();
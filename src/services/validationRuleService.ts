@@ -0,0 +1,256 @@
+// Metadata validation rules - registered per index/namespace, checked against the namespace or against writes
+// Rule sets are validated with zod on the way in, and each rule is compiled into a zod check for the values
+
+import { z } from 'zod';
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import pineconeService from './pineconeService';
+import { ValidationError } from '../utils/errors';
+import { dataPath, readJson, writeJson } from '../utils/localStore';
+
+const VALUE_TYPES = ['string', 'integer', 'number', 'boolean', 'string[]'] as const;
+
+const ruleBase = {
+  id: z.string().regex(/^[\w.-]+$/, 'id may only contain letters, digits, "_", "." and "-"').optional(),
+  key: z.string().min(1)
+};
+
+// One rule checks one thing, so the report can say exactly which rule a document broke
+const RuleSchema = z.discriminatedUnion('kind', [
+  z.object({ ...ruleBase, kind: z.literal('required') }),
+  z.object({ ...ruleBase, kind: z.literal('type'), allowed: z.array(z.enum(VALUE_TYPES)).min(1) }),
+  z.object({ ...ruleBase, kind: z.literal('enum'), values: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1) }),
+  z.object({ ...ruleBase, kind: z.literal('pattern'), pattern: z.string().min(1), flags: z.string().regex(/^[imsu]*$/).optional() }),
+  z.object({ ...ruleBase, kind: z.literal('range'), min: z.number().optional(), max: z.number().optional() }),
+  z.object({ ...ruleBase, kind: z.literal('maxLength'), maxLength: z.number().int().positive() })
+]);
+
+export type ValidationRule = z.infer<typeof RuleSchema> & { id: string };
+
+export interface RuleSet {
+  indexName: string;
+  namespace: string;
+  rules: ValidationRule[];
+  updatedAt: string;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  key: string;
+  message: string;
+}
+
+export interface ViolationReport {
+  indexName: string;
+  namespace: string;
+  rulesChecked: number;
+  scannedDocuments: number;
+  violatingDocuments: number;
+  byRule: Array<{
+    ruleId: string;
+    key: string;
+    kind: ValidationRule['kind'];
+    count: number;
+    documentIds: string[]; // Capped at maxIdsPerRule, count is the real total
+  }>;
+}
+
+interface CompiledRule {
+  rule: ValidationRule;
+  check: z.ZodTypeAny;
+}
+
+export class ValidationRuleService {
+
+  async getRules(indexName: string, namespace: string): Promise<RuleSet> {
+    const ruleSet = await readJson<RuleSet>(this.rulesPath(indexName, namespace));
+    return ruleSet || { indexName, namespace, rules: [], updatedAt: '' };
+  }
+
+  /**
+   * Replace the rule set for a namespace. An empty list switches validation off.
+   */
+  async setRules(indexName: string, namespace: string, rawRules: unknown): Promise<RuleSet> {
+    const parsed = z.array(RuleSchema).safeParse(rawRules);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ValidationError(`Invalid rules: rules[${issue.path.join('.')}] ${issue.message}`);
+    }
+
+    const rules = parsed.data.map(rule => ({ ...rule, id: rule.id || `${rule.key}.${rule.kind}` }) as ValidationRule);
+
+    const ids = new Set<string>();
+    for (const rule of rules) {
+      if (ids.has(rule.id)) {
+        throw new ValidationError(`Duplicate rule id "${rule.id}". Give one of them an explicit id.`);
+      }
+      ids.add(rule.id);
+
+      if (rule.kind === 'range' && rule.min === undefined && rule.max === undefined) {
+        throw new ValidationError(`Rule "${rule.id}" needs min, max or both`);
+      }
+
+      if (rule.kind === 'pattern') {
+        try {
+          new RegExp(rule.pattern, rule.flags);
+        } catch (error: any) {
+          throw new ValidationError(`Rule "${rule.id}" has an invalid pattern: ${error.message}`);
+        }
+      }
+    }
+
+    const ruleSet: RuleSet = { indexName, namespace, rules, updatedAt: new Date().toISOString() };
+    await writeJson(this.rulesPath(indexName, namespace), ruleSet);
+
+    console.log(`📏 ${rules.length} validation rules saved for ${indexName}:${(namespace || '(no namespace)')}`);
+    return ruleSet;
+  }
+
+  // All violations of one document's metadata; an empty list means it's fine
+  validate(rules: ValidationRule[], metadata: RecordMetadata): RuleViolation[] {
+    return this.compile(rules).flatMap(({ rule, check }) => {
+      const result = check.safeParse(metadata[rule.key]);
+      return result.success ? [] : [{ ruleId: rule.id, key: rule.key, message: `${rule.key}: ${result.error.issues[0].message}` }];
+    });
+  }
+
+  /**
+   * Throw a ValidationError if the metadata breaks any of the namespace's rules.
+   * Used by single and bulk writes when they are asked to enforce the rules.
+   */
+  async assertValid(indexName: string, namespace: string, metadata: RecordMetadata, documentId?: string): Promise<void> {
+    const { rules } = await this.getRules(indexName, namespace);
+    const violations = this.validate(rules, metadata);
+
+    if (violations.length > 0) {
+      throw new ValidationError(
+        `${documentId ? `Document ${documentId}` : 'Metadata'} breaks ${violations.length} validation rule(s): ${violations.map(violation => `[${violation.ruleId}] ${violation.message}`).join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Check every document in the namespace and group the offenders by rule
+   */
+  async runReport(
+    indexName: string,
+    namespace: string,
+    options: { maxDocuments?: number; maxIdsPerRule?: number } = {}
+  ): Promise<ViolationReport> {
+    const { rules } = await this.getRules(indexName, namespace);
+    if (rules.length === 0) {
+      throw new ValidationError(`No validation rules registered for ${indexName}:${(namespace || '(no namespace)')}. Register some first.`);
+    }
+
+    const maxDocuments = options.maxDocuments ?? 0;
+    const maxIdsPerRule = options.maxIdsPerRule ?? 1000;
+    const compiled = this.compile(rules);
+    const byRule = new Map(rules.map(rule => [rule.id, { ruleId: rule.id, key: rule.key, kind: rule.kind, count: 0, documentIds: [] as string[] }]));
+    let scannedDocuments = 0;
+    let violatingDocuments = 0;
+
+    console.log(`📏 Checking ${indexName}:${(namespace || '(no namespace)')} against ${rules.length} rules`);
+
+    scan:
+    for await (const batch of pineconeService.scanNamespace(indexName, { namespace })) {
+      for (const record of batch.records) {
+        if (maxDocuments > 0 && scannedDocuments >= maxDocuments) break scan;
+        scannedDocuments++;
+
+        let violated = false;
+        for (const { rule, check } of compiled) {
+          if (check.safeParse(record.metadata[rule.key]).success) continue;
+
+          violated = true;
+          const entry = byRule.get(rule.id)!;
+          entry.count++;
+          if (entry.documentIds.length < maxIdsPerRule) entry.documentIds.push(record.id);
+        }
+        if (violated) violatingDocuments++;
+      }
+    }
+
+    console.log(`Validation report: ${violatingDocuments} of ${scannedDocuments} documents break at least one rule`);
+
+    return {
+      indexName,
+      namespace,
+      rulesChecked: rules.length,
+      scannedDocuments,
+      violatingDocuments,
+      byRule: Array.from(byRule.values()).sort((a, b) => b.count - a.count)
+    };
+  }
+
+  // Each rule becomes a zod schema for the key's value; only "required" cares about missing keys
+  private compile(rules: ValidationRule[]): CompiledRule[] {
+    return rules.map(rule => {
+      let check: z.ZodTypeAny;
+
+      switch (rule.kind) {
+        case 'required':
+          check = z.any().refine(value => value !== undefined && value !== null && value !== '', 'is required');
+          break;
+
+        case 'type': {
+          const types = rule.allowed.map(type => ({
+            'string': z.string(),
+            'integer': z.number().int(),
+            'number': z.number(),
+            'boolean': z.boolean(),
+            'string[]': z.array(z.string())
+          })[type]);
+          check = z.any().superRefine((value, ctx) => {
+            if (value === undefined) return;
+            if (!types.some(type => type.safeParse(value).success)) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: `must be ${rule.allowed.join(' or ')}` });
+            }
+          });
+          break;
+        }
+
+        case 'enum':
+          check = z.any().refine(
+            value => value === undefined || (Array.isArray(value) ? value : [value]).every(item => rule.values.includes(item)),
+            `must be one of ${rule.values.map(value => JSON.stringify(value)).join(', ')}`
+          );
+          break;
+
+        case 'pattern': {
+          const pattern = new RegExp(rule.pattern, rule.flags);
+          check = z.union([z.undefined(), z.string().regex(pattern), z.array(z.string().regex(pattern))], {
+            errorMap: () => ({ message: `must match /${rule.pattern}/${rule.flags || ''}` })
+          });
+          break;
+        }
+
+        case 'range': {
+          let number = z.number();
+          if (rule.min !== undefined) number = number.min(rule.min);
+          if (rule.max !== undefined) number = number.max(rule.max);
+          check = z.union([z.undefined(), number], {
+            errorMap: () => ({ message: `must be a number${rule.min !== undefined ? ` >= ${rule.min}` : ''}${rule.max !== undefined ? ` <= ${rule.max}` : ''}` })
+          });
+          break;
+        }
+
+        case 'maxLength': {
+          const text = z.string().max(rule.maxLength);
+          check = z.union([z.undefined(), z.number(), z.boolean(), text, z.array(text)], {
+            errorMap: () => ({ message: `must be at most ${rule.maxLength} characters` })
+          });
+          break;
+        }
+      }
+
+      return { rule, check };
+    });
+  }
+
+  // Namespaces can contain characters that don't belong in file names, so encode them
+  private rulesPath(indexName: string, namespace: string): string {
+    const file = namespace ? `ns-${Buffer.from(namespace).toString('base64url')}.json` : '_default.json';
+    return dataPath('validation-rules', indexName, file);
+  }
+}
+
+export default new ValidationRuleService();
@@ -0,0 +1,91 @@
+import { BlockingIndex, hash32, hash53, lshBucketKeys, minHashSignature, shingles } from './blocking';
+
+const signatureOf = (text: string) => minHashSignature(new Set(shingles(text).map(gram => hash32(gram))), 48);
+
+describe('hashes', () => {
+  it('are deterministic and spread', () => {
+    expect(hash32('pinecone')).toBe(hash32('pinecone'));
+    expect(hash32('pinecone')).not.toBe(hash32('pinecones'));
+    expect(hash53('pinecone')).toBe(hash53('pinecone'));
+    expect(hash53('pinecone', 1)).not.toBe(hash53('pinecone'));
+  });
+
+  it('stay within their bit widths', () => {
+    for (const text of ['', 'a', 'x'.repeat(500)]) {
+      expect(hash32(text)).toBeGreaterThanOrEqual(0);
+      expect(hash32(text)).toBeLessThan(2 ** 32);
+      expect(Number.isSafeInteger(hash53(text))).toBe(true);
+    }
+  });
+});
+
+describe('shingles', () => {
+  it('splits into overlapping n-grams', () => {
+    expect(shingles('abcde')).toEqual(['abc', 'bcd', 'cde']);
+    expect(shingles('abcde', 4)).toEqual(['abcd', 'bcde']);
+  });
+
+  it('keeps short strings whole and drops empty ones', () => {
+    expect(shingles('ab')).toEqual(['ab']);
+    expect(shingles('abc')).toEqual(['abc']);
+    expect(shingles('')).toEqual([]);
+  });
+});
+
+describe('minHashSignature and lshBucketKeys', () => {
+  it('gives identical sets identical signatures and buckets', () => {
+    const a = signatureOf('quarterly revenue report 2024');
+    const b = signatureOf('quarterly revenue report 2024');
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(lshBucketKeys(a, 4)).toEqual(lshBucketKeys(b, 4));
+  });
+
+  it('makes near-duplicates share a bucket and unrelated text not', () => {
+    const original = lshBucketKeys(signatureOf('quarterly revenue report for the emea region 2024'), 4);
+    const typo = lshBucketKeys(signatureOf('quarterly revenue reprot for the emea region 2024'), 4);
+    const unrelated = lshBucketKeys(signatureOf('onboarding checklist for new engineers'), 4);
+
+    expect(original.some(key => typo.includes(key))).toBe(true);
+    expect(original.some(key => unrelated.includes(key))).toBe(false);
+  });
+
+  it('produces one key per band', () => {
+    expect(lshBucketKeys(signatureOf('anything at all'), 4)).toHaveLength(12);
+  });
+
+  it('fills an empty set with the maximum value', () => {
+    expect(Array.from(minHashSignature([], 3))).toEqual([0xffffffff, 0xffffffff, 0xffffffff]);
+  });
+});
+
+describe('BlockingIndex', () => {
+  it('returns documents sharing a bucket, never the document itself', () => {
+    const index = new BlockingIndex(10);
+    index.add(0, [1, 2]);
+    index.add(1, [2]);
+    index.add(2, [3]);
+    index.add(3, [1, 3]);
+
+    expect(index.candidates(0)).toEqual(new Set([1, 3]));
+    expect(index.candidates(2)).toEqual(new Set([3]));
+    expect(index.candidates(9)).toEqual(new Set());
+  });
+
+  it('drops buckets that grow past the cap, and keeps uncapped ones', () => {
+    const index = new BlockingIndex(2);
+    for (let i = 0; i < 4; i++) {
+      index.add(i, [100]); // "language=en"
+      index.add(i, [200], false); // identical metadata
+    }
+
+    expect(index.candidates(0)).toEqual(new Set([1, 2, 3]));
+    expect(index.stats()).toEqual({ blocks: 1, oversizedBlocks: 1, largestBlock: 4 });
+  });
+
+  it('ignores repeated keys for one document', () => {
+    const index = new BlockingIndex(10);
+    index.add(0, [5, 5, 5]);
+    index.add(1, [5]);
+    expect(index.stats()).toEqual({ blocks: 1, oversizedBlocks: 0, largestBlock: 2 });
+  });
+});
@@ -0,0 +1,158 @@
+// Blocking for duplicate detection - documents only get compared when they share a bucket
+// Hashes, MinHash signatures with LSH banding, and an index from bucket keys to document positions
+
+// FNV-1a, 32 bit. Shingles only need to be spread evenly, not be collision-proof.
+export function hash32(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// cyrb53 - 53 bits fit a JS number exactly, so bucket keys can be numbers instead of millions of strings.
+// A collision only ever adds a candidate pair; the real comparison still decides.
+export function hash53(text: string, seed: number = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// Murmur3 finalizer - mixing a shingle hash with a different seed acts as a different permutation
+function mix32(value: number): number {
+  value ^= value >>> 16;
+  value = Math.imul(value, 0x85ebca6b);
+  value ^= value >>> 13;
+  value = Math.imul(value, 0xc2b2ae35);
+  value ^= value >>> 16;
+  return value >>> 0;
+}
+
+const seedCache = new Map<number, Uint32Array>();
+
+function permutationSeeds(count: number): Uint32Array {
+  let seeds = seedCache.get(count);
+  if (!seeds) {
+    seeds = new Uint32Array(count);
+    for (let i = 0; i < count; i++) seeds[i] = mix32(i + 0x9e3779b9);
+    seedCache.set(count, seeds);
+  }
+  return seeds;
+}
+
+/**
+ * Character n-grams of a string; strings shorter than n are one shingle
+ */
+export function shingles(text: string, size: number = 3): string[] {
+  if (text.length <= size) return text ? [text] : [];
+  const result: string[] = [];
+  for (let i = 0; i + size <= text.length; i++) result.push(text.slice(i, i + size));
+  return result;
+}
+
+/**
+ * MinHash signature of a set of shingle hashes. The share of equal positions in two signatures
+ * estimates the Jaccard similarity of the two sets.
+ */
+export function minHashSignature(shingleHashes: Iterable<number>, numHashes: number): Uint32Array {
+  const seeds = permutationSeeds(numHashes);
+  const signature = new Uint32Array(numHashes).fill(0xffffffff);
+
+  for (const shingle of shingleHashes) {
+    for (let i = 0; i < numHashes; i++) {
+      const value = mix32(shingle ^ seeds[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Split a signature into bands and hash each band to a bucket key. Two sets with Jaccard similarity s
+ * share at least one bucket with probability 1 - (1 - s^rows)^bands.
+ */
+export function lshBucketKeys(signature: Uint32Array, rows: number): number[] {
+  const keys: number[] = [];
+  for (let band = 0; band * rows < signature.length; band++) {
+    keys.push(hash53(`b${band}:${signature.subarray(band * rows, (band + 1) * rows).join(',')}`));
+  }
+  return keys;
+}
+
+export interface BlockingStats {
+  blocks: number; // Buckets with at least two documents
+  oversizedBlocks: number; // Buckets dropped for being too common to say anything
+  largestBlock: number;
+}
+
+/**
+ * Bucket key -> documents. Buckets past maxBlockSize stop being used for candidates (think
+ * "language=en"); uncapped keys are for buckets whose members are duplicates by construction.
+ */
+export class BlockingIndex {
+  // A lone document is stored as a bare number - most buckets never get a second member
+  private blocks = new Map<number, number | number[]>();
+  private oversized = new Set<number>();
+  private uncapped = new Set<number>();
+  private documentKeys: Float64Array[] = [];
+
+  constructor(private maxBlockSize: number) {}
+
+  add(documentIndex: number, keys: number[], capped: boolean = true): void {
+    const unique = Array.from(new Set(keys));
+    const existing = this.documentKeys[documentIndex];
+    this.documentKeys[documentIndex] = existing ? Float64Array.from([...existing, ...unique]) : Float64Array.from(unique);
+
+    for (const key of unique) {
+      if (!capped) this.uncapped.add(key);
+      if (this.oversized.has(key)) continue;
+
+      const block = this.blocks.get(key);
+      if (block === undefined) {
+        this.blocks.set(key, documentIndex);
+      } else if (typeof block === 'number') {
+        this.blocks.set(key, [block, documentIndex]);
+      } else if (block.length < this.maxBlockSize || this.uncapped.has(key)) {
+        block.push(documentIndex);
+      } else {
+        this.blocks.delete(key);
+        this.oversized.add(key);
+      }
+    }
+  }
+
+  /**
+   * Every document that shares a usable bucket with this one, itself excluded
+   */
+  candidates(documentIndex: number): Set<number> {
+    const result = new Set<number>();
+    for (const key of this.documentKeys[documentIndex] || []) {
+      const block = this.blocks.get(key);
+      if (block === undefined || typeof block === 'number') continue;
+      for (const member of block) {
+        if (member !== documentIndex) result.add(member);
+      }
+    }
+    return result;
+  }
+
+  stats(): BlockingStats {
+    let blocks = 0;
+    let largestBlock = 0;
+    for (const block of this.blocks.values()) {
+      if (typeof block === 'number') continue;
+      blocks++;
+      largestBlock = Math.max(largestBlock, block.length);
+    }
+    return { blocks, oversizedBlocks: this.oversized.size, largestBlock };
+  }
+}
@@ -18,21 +18,51 @@ export interface DataTypeAnalysis {
   };
 }
 
+// What analyzeSummary needs to know about a column, for callers that stream values instead of holding them
+export interface ValueSummary {
+  totalCount: number;
+  nullCount: number;
+  uniqueCount: number; // Distinct non-null values
+  minLength: number; // Lengths are over the non-null values as strings
+  maxLength: number;
+  totalLength: number;
+  samples: string[]; // Non-null values as strings - the first 100 decide the type
+}
+
 export class DataTypeDetector {
 
+  static isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '';
+  }
+
   static analyzeValues(values: any[]): DataTypeAnalysis {
-    const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
-    const uniqueValues = new Set(nonNullValues);
+    const nonNullValues = values.filter(v => !this.isEmpty(v));
+    const stringValues = nonNullValues.map(v => String(v));
+    const lengths = stringValues.map(v => v.length);
 
-    const statistics = {
-      uniqueCount: uniqueValues.size,
+    return this.analyzeSummary({
       totalCount: values.length,
       nullCount: values.length - nonNullValues.length,
-      completeness: (nonNullValues.length / values.length) * 100,
-      uniqueness: (uniqueValues.size / nonNullValues.length) * 100 || 0,
+      uniqueCount: new Set(nonNullValues).size,
+      minLength: lengths.reduce((min, length) => Math.min(min, length), Infinity),
+      maxLength: lengths.reduce((max, length) => Math.max(max, length), 0),
+      totalLength: lengths.reduce((a, b) => a + b, 0),
+      samples: stringValues
+    });
+  }
+
+  static analyzeSummary(summary: ValueSummary): DataTypeAnalysis {
+    const nonNullCount = summary.totalCount - summary.nullCount;
+
+    const statistics = {
+      uniqueCount: summary.uniqueCount,
+      totalCount: summary.totalCount,
+      nullCount: summary.nullCount,
+      completeness: (nonNullCount / summary.totalCount) * 100,
+      uniqueness: (summary.uniqueCount / nonNullCount) * 100 || 0,
     };
 
-    if (nonNullValues.length === 0) {
+    if (nonNullCount === 0) {
       return {
         primaryType: 'empty',
         confidence: 100,
@@ -41,18 +71,14 @@ export class DataTypeDetector {
       };
     }
 
-    // Convert all values to strings for analysis
-    const stringValues = nonNullValues.map(v => String(v));
-    const lengths = stringValues.map(v => v.length);
-
     const lengthStats = {
-      minLength: Math.min(...lengths),
-      maxLength: Math.max(...lengths),
-      avgLength: lengths.reduce((a, b) => a + b, 0) / lengths.length
+      minLength: summary.minLength,
+      maxLength: summary.maxLength,
+      avgLength: summary.totalLength / nonNullCount
     };
 
     // Detect type based on patterns and content
-    const typeAnalysis = this.detectType(stringValues, uniqueValues.size, nonNullValues.length);
+    const typeAnalysis = this.detectType(summary.samples, summary.uniqueCount, nonNullCount, lengthStats.avgLength);
 
     return {
       ...typeAnalysis,
@@ -60,7 +86,7 @@ export class DataTypeDetector {
     };
   }
 
-  private static detectType(values: string[], uniqueCount: number, totalCount: number): Omit<DataTypeAnalysis, 'statistics'> {
+  private static detectType(values: string[], uniqueCount: number, totalCount: number, avgLength: number): Omit<DataTypeAnalysis, 'statistics'> {
     const sampleSize = Math.min(values.length, 100); // Analyze up to 100 samples
     const samples = values.slice(0, sampleSize);
 
@@ -92,7 +118,6 @@ export class DataTypeDetector {
     }
 
     // Text categorization by length
-    const avgLength = values.reduce((sum, val) => sum + val.length, 0) / values.length;
     if (avgLength > 500) {
       return { primaryType: 'text', subType: 'long', confidence: 70, patterns: ['long text content'] };
     }
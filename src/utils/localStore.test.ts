@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { dataPath, readJson, withFileLock, writeJson } from './localStore';
+import { ValidationError } from './errors';
+
+describe('localStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'localstore-'));
+    process.env.DATA_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('builds paths under DATA_DIR and refuses traversal', () => {
+    expect(dataPath('snapshots', 'my-index')).toBe(path.join(dir, 'snapshots', 'my-index'));
+    expect(() => dataPath('..', 'etc')).toThrow(ValidationError);
+    expect(() => dataPath('a/b')).toThrow(ValidationError);
+  });
+
+  it('survives concurrent writes to one file without leaving temp files behind', async () => {
+    const file = dataPath('store', 'state.json');
+    await Promise.all(Array.from({ length: 20 }, (_, i) => writeJson(file, { i, padding: 'x'.repeat(10000) })));
+
+    expect((await readJson<{ i: number }>(file))!.i).toBeGreaterThanOrEqual(0);
+    expect(await fs.promises.readdir(path.dirname(file))).toEqual(['state.json']);
+  });
+
+  it('serializes read-modify-write cycles on the same file', async () => {
+    const file = dataPath('store', 'counter.json');
+    const increment = () => withFileLock(file, async () => {
+      const current = (await readJson<{ count: number }>(file))?.count || 0;
+      await new Promise(resolve => setTimeout(resolve, 1));
+      await writeJson(file, { count: current + 1 });
+    });
+
+    await Promise.all(Array.from({ length: 10 }, increment));
+    expect(await readJson(file)).toEqual({ count: 10 });
+  });
+
+  it('keeps the queue moving after a failed task', async () => {
+    const file = dataPath('store', 'flaky.json');
+    const failed = withFileLock(file, async () => { throw new Error('nope'); });
+    const next = withFileLock(file, async () => 'ran');
+
+    await expect(failed).rejects.toThrow('nope');
+    await expect(next).resolves.toBe('ran');
+  });
+});
@@ -0,0 +1,72 @@
+// Local on-disk storage for things Pinecone won't keep for us (snapshots, saved analyses, ...)
+// Everything lives under DATA_DIR (default ./data), one subdirectory per feature
+
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { ValidationError } from './errors';
+
+const SAFE_SEGMENT = /^[\w.-]+$/;
+
+// Tail of each file's queue of read-modify-write tasks, keyed by resolved path
+const fileLocks = new Map<string, Promise<unknown>>();
+
+export function dataPath(...segments: string[]): string {
+  // Segments come from URLs more often than not - no "../" adventures
+  for (const segment of segments) {
+    if (!SAFE_SEGMENT.test(segment) || segment === '.' || segment === '..') {
+      throw new ValidationError(`Invalid path segment "${segment}"`);
+    }
+  }
+  return path.join(process.env.DATA_DIR || './data', ...segments);
+}
+
+export async function ensureDir(dir: string): Promise<void> {
+  await fs.promises.mkdir(dir, { recursive: true });
+}
+
+export async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8')) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a JSON file behind.
+// The temp name is unique per write - two concurrent writes sharing one would interleave into garbage.
+export async function writeJson(file: string, data: unknown): Promise<void> {
+  await ensureDir(path.dirname(file));
+  const tempFile = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.promises.writeFile(tempFile, JSON.stringify(data, null, 2));
+  await fs.promises.rename(tempFile, file);
+}
+
+export async function listFiles(dir: string, suffix: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(dir);
+    return entries.filter(entry => entry.endsWith(suffix)).map(entry => path.join(dir, entry));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Run a read-modify-write of one file with no other task on that file in between.
+ * Two requests appending at once would otherwise both read the old contents, and the last writer wins.
+ * Only serializes within this process - which is the only process writing DATA_DIR.
+ */
+export async function withFileLock<T>(file: string, task: () => Promise<T>): Promise<T> {
+  const key = path.resolve(file);
+  const run = (fileLocks.get(key) || Promise.resolve()).then(task);
+  const tail = run.catch(() => undefined); // A failed task must not block the next one
+  fileLocks.set(key, tail);
+
+  try {
+    return await run;
+  } finally {
+    if (fileLocks.get(key) === tail) fileLocks.delete(key);
+  }
+}
@@ -0,0 +1,90 @@
+import { MetadataFilterEngine } from './metadataFilter';
+import { ValidationError } from './errors';
+
+describe('MetadataFilterEngine', () => {
+  describe('parse', () => {
+    it('treats missing and empty filters as no filter', () => {
+      expect(MetadataFilterEngine.parse(undefined)).toBeUndefined();
+      expect(MetadataFilterEngine.parse('')).toBeUndefined();
+      expect(MetadataFilterEngine.parse('{}')).toBeUndefined();
+    });
+
+    it('parses JSON from a query string', () => {
+      expect(MetadataFilterEngine.parse('{"genre":{"$eq":"drama"}}')).toEqual({ genre: { $eq: 'drama' } });
+    });
+
+    it('rejects invalid JSON', () => {
+      expect(() => MetadataFilterEngine.parse('{genre:')).toThrow(/not valid JSON/);
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts the Pinecone grammar', () => {
+      expect(() => MetadataFilterEngine.validate({
+        genre: 'drama',
+        year: { $gte: 2000, $lt: 2010 },
+        tags: { $in: ['a', 'b'] },
+        draft: { $exists: false },
+        $or: [{ rating: { $gt: 4 } }, { featured: true }]
+      })).not.toThrow();
+    });
+
+    it('reports the offending path', () => {
+      expect(() => MetadataFilterEngine.validate({ $and: [{ year: { $gt: 'soon' } }] }))
+        .toThrow('Invalid filter: filter.$and[0].year.$gt must be a number');
+    });
+
+    it('rejects unknown operators and bad operands', () => {
+      expect(() => MetadataFilterEngine.validate({ $not: [] })).toThrow(ValidationError);
+      expect(() => MetadataFilterEngine.validate({ year: { $regex: '.*' } })).toThrow(/unsupported operator "\$regex"/);
+      expect(() => MetadataFilterEngine.validate({ year: {} })).toThrow(/has no operators/);
+      expect(() => MetadataFilterEngine.validate({ $or: [] })).toThrow(/non-empty array/);
+      expect(() => MetadataFilterEngine.validate({ tags: { $in: [{}] } })).toThrow(/array of strings/);
+      expect(() => MetadataFilterEngine.validate({ draft: { $exists: 'yes' } })).toThrow(/true or false/);
+      expect(() => MetadataFilterEngine.validate([])).toThrow(/must be an object/);
+    });
+  });
+
+  describe('matches', () => {
+    const metadata = { genre: 'drama', year: 2005, tags: ['award', 'classic'], featured: false };
+
+    it('matches everything without a filter', () => {
+      expect(MetadataFilterEngine.matches(metadata, undefined)).toBe(true);
+      expect(MetadataFilterEngine.matches(undefined, {})).toBe(true);
+    });
+
+    it('treats bare values as $eq', () => {
+      expect(MetadataFilterEngine.matches(metadata, { genre: 'drama' })).toBe(true);
+      expect(MetadataFilterEngine.matches(metadata, { genre: 'comedy' })).toBe(false);
+      expect(MetadataFilterEngine.matches(metadata, { featured: false })).toBe(true);
+    });
+
+    it('compares ranges on numbers only', () => {
+      expect(MetadataFilterEngine.matches(metadata, { year: { $gte: 2005, $lt: 2010 } })).toBe(true);
+      expect(MetadataFilterEngine.matches(metadata, { year: { $gt: 2005 } })).toBe(false);
+      expect(MetadataFilterEngine.matches({ year: '2005' }, { year: { $gte: 2000 } })).toBe(false);
+    });
+
+    it('matches list values when any element matches', () => {
+      expect(MetadataFilterEngine.matches(metadata, { tags: 'classic' })).toBe(true);
+      expect(MetadataFilterEngine.matches(metadata, { tags: { $in: ['new', 'award'] } })).toBe(true);
+      expect(MetadataFilterEngine.matches(metadata, { tags: { $nin: ['award'] } })).toBe(false);
+      expect(MetadataFilterEngine.matches(metadata, { tags: { $ne: 'award' } })).toBe(false);
+    });
+
+    it('checks $exists against missing and null values', () => {
+      expect(MetadataFilterEngine.matches(metadata, { rating: { $exists: false } })).toBe(true);
+      expect(MetadataFilterEngine.matches({ rating: null } as any, { rating: { $exists: true } })).toBe(false);
+      expect(MetadataFilterEngine.matches(metadata, { genre: { $exists: true } })).toBe(true);
+    });
+
+    it('combines $and and $or', () => {
+      expect(MetadataFilterEngine.matches(metadata, {
+        $or: [{ genre: 'comedy' }, { $and: [{ year: { $lt: 2010 } }, { tags: 'award' }] }]
+      })).toBe(true);
+      expect(MetadataFilterEngine.matches(metadata, {
+        $and: [{ genre: 'drama' }, { featured: true }]
+      })).toBe(false);
+    });
+  });
+});
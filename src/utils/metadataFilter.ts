@@ -0,0 +1,166 @@
+// Metadata filter engine implementing the Pinecone filter grammar
+// Because list+fetch doesn't filter anything server-side, somebody has to do it here
+
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import { ValidationError } from './errors';
+
+export type MetadataFilter = Record<string, any>;
+
+type FilterPrimitive = string | number | boolean;
+
+const EQUALITY_OPERATORS = ['$eq', '$ne'];
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte'];
+const SET_OPERATORS = ['$in', '$nin'];
+const LOGICAL_OPERATORS = ['$and', '$or'];
+
+export class MetadataFilterEngine {
+
+  /**
+   * Parse a filter from a query string (JSON) or an already-parsed object.
+   * Returns undefined for missing or empty filters, throws ValidationError for garbage.
+   */
+  static parse(raw: unknown): MetadataFilter | undefined {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+
+    let filter: unknown = raw;
+    if (typeof raw === 'string') {
+      try {
+        filter = JSON.parse(raw);
+      } catch (error: any) {
+        throw new ValidationError(`Invalid filter: not valid JSON (${error.message})`);
+      }
+    }
+
+    this.validate(filter);
+    return this.isEmpty(filter as MetadataFilter) ? undefined : filter as MetadataFilter;
+  }
+
+  static isEmpty(filter?: MetadataFilter): boolean {
+    return !filter || Object.keys(filter).length === 0;
+  }
+
+  /**
+   * Validate a filter against the Pinecone grammar, throwing ValidationError with the offending path
+   */
+  static validate(filter: unknown, path: string = 'filter'): void {
+    if (!this.isPlainObject(filter)) {
+      throw new ValidationError(`Invalid filter: ${path} must be an object`);
+    }
+
+    for (const [key, condition] of Object.entries(filter as Record<string, unknown>)) {
+      const keyPath = `${path}.${key}`;
+
+      if (LOGICAL_OPERATORS.includes(key)) {
+        if (!Array.isArray(condition) || condition.length === 0) {
+          throw new ValidationError(`Invalid filter: ${keyPath} must be a non-empty array of filters`);
+        }
+        condition.forEach((subFilter, i) => this.validate(subFilter, `${keyPath}[${i}]`));
+        continue;
+      }
+
+      if (key.startsWith('$')) {
+        throw new ValidationError(`Invalid filter: unsupported operator "${key}" at ${path}`);
+      }
+
+      this.validateFieldCondition(condition, keyPath);
+    }
+  }
+
+  /**
+   * Check whether a record's metadata satisfies a filter. No filter means everything matches.
+   */
+  static matches(metadata: RecordMetadata | undefined, filter?: MetadataFilter): boolean {
+    if (this.isEmpty(filter)) return true;
+    const record = metadata || {};
+
+    return Object.entries(filter!).every(([key, condition]) => {
+      if (key === '$and') return (condition as MetadataFilter[]).every(sub => this.matches(record, sub));
+      if (key === '$or') return (condition as MetadataFilter[]).some(sub => this.matches(record, sub));
+      return this.matchesField(record[key], condition);
+    });
+  }
+
+  private static validateFieldCondition(condition: unknown, path: string): void {
+    // Bare values are shorthand for $eq
+    if (!this.isPlainObject(condition)) {
+      if (!this.isPrimitive(condition)) {
+        throw new ValidationError(`Invalid filter: ${path} must be a string, number, boolean or operator object`);
+      }
+      return;
+    }
+
+    const operators = Object.entries(condition as Record<string, unknown>);
+    if (operators.length === 0) {
+      throw new ValidationError(`Invalid filter: ${path} has no operators`);
+    }
+
+    for (const [operator, operand] of operators) {
+      const operatorPath = `${path}.${operator}`;
+
+      if (EQUALITY_OPERATORS.includes(operator)) {
+        if (!this.isPrimitive(operand)) {
+          throw new ValidationError(`Invalid filter: ${operatorPath} must be a string, number or boolean`);
+        }
+      } else if (RANGE_OPERATORS.includes(operator)) {
+        if (typeof operand !== 'number' || !Number.isFinite(operand)) {
+          throw new ValidationError(`Invalid filter: ${operatorPath} must be a number`);
+        }
+      } else if (SET_OPERATORS.includes(operator)) {
+        if (!Array.isArray(operand) || !operand.every(value => this.isPrimitive(value))) {
+          throw new ValidationError(`Invalid filter: ${operatorPath} must be an array of strings, numbers or booleans`);
+        }
+      } else if (operator === '$exists') {
+        if (typeof operand !== 'boolean') {
+          throw new ValidationError(`Invalid filter: ${operatorPath} must be true or false`);
+        }
+      } else {
+        throw new ValidationError(`Invalid filter: unsupported operator "${operator}" at ${path}`);
+      }
+    }
+  }
+
+  private static matchesField(value: unknown, condition: unknown): boolean {
+    if (!this.isPlainObject(condition)) {
+      return this.valueEquals(value, condition as FilterPrimitive);
+    }
+
+    return Object.entries(condition as Record<string, any>).every(([operator, operand]) => {
+      switch (operator) {
+        case '$eq':
+          return this.valueEquals(value, operand);
+        case '$ne':
+          return !this.valueEquals(value, operand);
+        case '$gt':
+          return typeof value === 'number' && value > operand;
+        case '$gte':
+          return typeof value === 'number' && value >= operand;
+        case '$lt':
+          return typeof value === 'number' && value < operand;
+        case '$lte':
+          return typeof value === 'number' && value <= operand;
+        case '$in':
+          return (operand as FilterPrimitive[]).some(candidate => this.valueEquals(value, candidate));
+        case '$nin':
+          return !(operand as FilterPrimitive[]).some(candidate => this.valueEquals(value, candidate));
+        case '$exists':
+          return (value !== undefined && value !== null) === operand;
+        default:
+          return false;
+      }
+    });
+  }
+
+  // List values (string arrays) match when any element matches, same as Pinecone
+  private static valueEquals(value: unknown, expected: FilterPrimitive): boolean {
+    if (Array.isArray(value)) return value.some(element => element === expected);
+    return value === expected;
+  }
+
+  private static isPrimitive(value: unknown): value is FilterPrimitive {
+    return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+  }
+
+  private static isPlainObject(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
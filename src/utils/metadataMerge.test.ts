@@ -0,0 +1,89 @@
+import { MergeMember, MetadataMergeEngine } from './metadataMerge';
+import { ValidationError } from './errors';
+
+describe('MetadataMergeEngine', () => {
+  describe('parseRules', () => {
+    it('defaults to no rules', () => {
+      expect(MetadataMergeEngine.parseRules(undefined)).toEqual({});
+      expect(MetadataMergeEngine.parseRules('')).toEqual({});
+    });
+
+    it('parses JSON rules', () => {
+      expect(MetadataMergeEngine.parseRules('{"default":"prefer-newest","keys":{"title":"prefer-longest"}}'))
+        .toEqual({ default: 'prefer-newest', keys: { title: 'prefer-longest' } });
+    });
+
+    it.each([
+      ['{nope', /not valid JSON/],
+      ['[]', /must be an object/],
+      [{ default: 'prefer-oldest' }, /mergeRules\.default must be one of/],
+      [{ keys: ['title'] }, /keys must be an object/],
+      [{ keys: { title: 'prefer-shortest' } }, /mergeRules\.keys\["title"\] must be one of/]
+    ])('rejects %j', (raw, message) => {
+      expect(() => MetadataMergeEngine.parseRules(raw)).toThrow(ValidationError);
+      expect(() => MetadataMergeEngine.parseRules(raw)).toThrow(message);
+    });
+  });
+
+  describe('merge', () => {
+    const members: MergeMember[] = [
+      { id: 'old', metadata: { title: 'Guide', tags: ['a', 'b'], lastModified: '2024-01-01', author: 'kim' } },
+      { id: 'new', metadata: { title: 'Installation guide', tags: 'c', lastModified: '2024-03-01', source: 'wiki' } },
+      { id: 'mid', metadata: { title: 'Install guide', tags: ['b', 'd'], lastModified: '2024-02-01' } }
+    ];
+
+    it('unions lists, fills missing keys and keeps the survivor on conflicts by default', () => {
+      expect(MetadataMergeEngine.merge('old', members)).toEqual({
+        title: 'Guide',
+        tags: ['a', 'b', 'c', 'd'],
+        lastModified: '2024-01-01',
+        author: 'kim',
+        source: 'wiki'
+      });
+    });
+
+    it('orders list unions survivor first', () => {
+      expect(MetadataMergeEngine.merge('mid', members).tags).toEqual(['b', 'd', 'a', 'c']);
+    });
+
+    it('applies per-key rules over the default', () => {
+      const merged = MetadataMergeEngine.merge('old', members, { default: 'prefer-newest', keys: { title: 'prefer-longest' } });
+      expect(merged.title).toBe('Installation guide');
+      expect(merged.lastModified).toBe('2024-03-01');
+    });
+
+    it('lets members without a timestamp lose prefer-newest', () => {
+      const merged = MetadataMergeEngine.merge('a', [
+        { id: 'a', metadata: { status: 'draft' } },
+        { id: 'b', metadata: { status: 'final', timestamp: 1700000000000 } }
+      ], { default: 'prefer-newest' });
+      expect(merged.status).toBe('final');
+    });
+
+    it('breaks prefer-longest ties in favour of the survivor', () => {
+      const merged = MetadataMergeEngine.merge('b', [
+        { id: 'a', metadata: { code: 'abc' } },
+        { id: 'b', metadata: { code: 'xyz' } }
+      ], { default: 'prefer-longest' });
+      expect(merged.code).toBe('xyz');
+    });
+
+    it('refuses a survivor outside the group', () => {
+      expect(() => MetadataMergeEngine.merge('ghost', members)).toThrow(/not a member/);
+    });
+  });
+
+  describe('documentTime', () => {
+    it('reads lastModified, timestamp or created, in that order', () => {
+      expect(MetadataMergeEngine.documentTime({ lastModified: '2024-01-01T00:00:00Z', created: '2020-01-01' })).toBe(Date.parse('2024-01-01T00:00:00Z'));
+      expect(MetadataMergeEngine.documentTime({ timestamp: 1700000000000 })).toBe(1700000000000);
+      expect(MetadataMergeEngine.documentTime({ created: '2020-01-01T00:00:00Z' })).toBe(Date.parse('2020-01-01T00:00:00Z'));
+    });
+
+    it('is undefined when nothing parses', () => {
+      expect(MetadataMergeEngine.documentTime({})).toBeUndefined();
+      expect(MetadataMergeEngine.documentTime({ lastModified: 'yesterday-ish' })).toBeUndefined();
+      expect(MetadataMergeEngine.documentTime({ lastModified: true })).toBeUndefined();
+    });
+  });
+});
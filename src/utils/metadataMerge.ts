@@ -0,0 +1,136 @@
+// Metadata merging for duplicate groups - folds what the doomed duplicates know into the survivor
+// Pure functions like MetadataOperationEngine, so the merge can be previewed and audited exactly
+
+import { RecordMetadata, RecordMetadataValue } from '@pinecone-database/pinecone';
+import { ValidationError } from './errors';
+
+export type MergeConflictRule = 'prefer-survivor' | 'prefer-newest' | 'prefer-longest';
+
+export const MERGE_CONFLICT_RULES: MergeConflictRule[] = ['prefer-survivor', 'prefer-newest', 'prefer-longest'];
+
+export interface MergeRules {
+  default?: MergeConflictRule; // prefer-survivor unless told otherwise
+  keys?: Record<string, MergeConflictRule>;
+}
+
+export interface MergeMember {
+  id: string;
+  metadata: RecordMetadata;
+}
+
+export class MetadataMergeEngine {
+
+  /**
+   * Parse merge rules from a query string or request body
+   */
+  static parseRules(raw: unknown): MergeRules {
+    if (raw === undefined || raw === null || raw === '') return {};
+
+    let rules: any = raw;
+    if (typeof raw === 'string') {
+      try {
+        rules = JSON.parse(raw);
+      } catch (error: any) {
+        throw new ValidationError(`Invalid mergeRules: not valid JSON (${error.message})`);
+      }
+    }
+
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+      throw new ValidationError('mergeRules must be an object like { "default": "prefer-newest", "keys": { "title": "prefer-longest" } }');
+    }
+
+    const checkRule = (rule: unknown, where: string) => {
+      if (!MERGE_CONFLICT_RULES.includes(rule as MergeConflictRule)) {
+        throw new ValidationError(`${where} must be one of: ${MERGE_CONFLICT_RULES.join(', ')}`);
+      }
+    };
+
+    if (rules.default !== undefined) checkRule(rules.default, 'mergeRules.default');
+
+    if (rules.keys !== undefined) {
+      if (typeof rules.keys !== 'object' || rules.keys === null || Array.isArray(rules.keys)) {
+        throw new ValidationError('mergeRules.keys must be an object of key -> rule');
+      }
+      for (const [key, rule] of Object.entries(rules.keys)) checkRule(rule, `mergeRules.keys["${key}"]`);
+    }
+
+    return { default: rules.default, keys: rules.keys };
+  }
+
+  /**
+   * Merge every member's metadata into the survivor's. Lists (and strings sitting next to lists) are
+   * unioned, keys the survivor lacks are filled in, and conflicting scalars go through the key's rule.
+   */
+  static merge(survivorId: string, members: MergeMember[], rules: MergeRules = {}): RecordMetadata {
+    const survivor = members.find(member => member.id === survivorId);
+    if (!survivor) {
+      throw new Error(`Survivor ${survivorId} is not a member of the group`);
+    }
+
+    const merged: RecordMetadata = { ...survivor.metadata };
+    const keys = new Set(members.flatMap(member => Object.keys(member.metadata)));
+
+    // Survivor first, then the others in group order - that order breaks every tie
+    const ordered = [survivor, ...members.filter(member => member !== survivor)];
+
+    for (const key of keys) {
+      const holders = ordered.filter(member => key in member.metadata);
+      const values = holders.map(member => member.metadata[key]);
+
+      if (values.some(value => Array.isArray(value)) && values.every(value => Array.isArray(value) || typeof value === 'string')) {
+        const union: string[] = [];
+        for (const value of values) {
+          for (const item of Array.isArray(value) ? value : [value as string]) {
+            if (!union.includes(item)) union.push(item);
+          }
+        }
+        merged[key] = union;
+        continue;
+      }
+
+      const distinct = new Set(values.map(value => JSON.stringify(value)));
+      if (key in survivor.metadata && distinct.size === 1) continue;
+
+      merged[key] = this.pick(key, holders, survivor, rules.keys?.[key] || rules.default || 'prefer-survivor');
+    }
+
+    return merged;
+  }
+
+  // Pick one member's value for a key. Members without a usable timestamp lose "newest" to those with one.
+  private static pick(key: string, holders: MergeMember[], survivor: MergeMember, rule: MergeConflictRule): RecordMetadataValue {
+    if (rule === 'prefer-newest') {
+      let newest = holders[0];
+      let newestTime = this.documentTime(newest.metadata) ?? -Infinity;
+      for (const holder of holders.slice(1)) {
+        const time = this.documentTime(holder.metadata) ?? -Infinity;
+        if (time > newestTime) {
+          newest = holder;
+          newestTime = time;
+        }
+      }
+      return newest.metadata[key];
+    }
+
+    if (rule === 'prefer-longest') {
+      const length = (value: RecordMetadataValue) => Array.isArray(value) ? value.join('').length : String(value).length;
+      return holders.reduce((longest, holder) =>
+        length(holder.metadata[key]) > length(longest.metadata[key]) ? holder : longest
+      ).metadata[key];
+    }
+
+    // prefer-survivor: the survivor's own value, or the first member that has one
+    return (key in survivor.metadata ? survivor : holders[0]).metadata[key];
+  }
+
+  /**
+   * When a document was last touched, from the usual suspects. Undefined if it doesn't say.
+   */
+  static documentTime(metadata: RecordMetadata): number | undefined {
+    const timestamp = metadata.lastModified || metadata.timestamp || metadata.created;
+    if (typeof timestamp !== 'string' && typeof timestamp !== 'number') return undefined;
+
+    const time = new Date(timestamp).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+}
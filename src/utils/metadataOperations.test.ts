@@ -0,0 +1,93 @@
+import { MetadataOperationEngine } from './metadataOperations';
+import { ValidationError } from './errors';
+
+describe('MetadataOperationEngine', () => {
+  describe('validate', () => {
+    it('accepts a well-formed plan', () => {
+      const operations = [
+        { op: 'set', key: 'status', value: 'active' },
+        { op: 'copy', from: 'title', to: 'headline' },
+        { op: 'parseDate', key: 'published', target: 'publishedAt', unit: 'ms' },
+        { op: 'map', key: 'lang', mapping: { english: 'en' } }
+      ];
+      expect(MetadataOperationEngine.validate(operations)).toEqual(operations);
+    });
+
+    it.each([
+      [[], /non-empty array/],
+      [[{ op: 'explode', key: 'x' }], /operations\[0\]\.op must be one of/],
+      [[{ op: 'copy', from: 'a' }], /operations\[0\]\.to must be a non-empty string/],
+      [[{ op: 'set', key: 'x', value: { nested: true } }], /value must be a string, number, boolean or list of strings/],
+      [[{ op: 'append', key: 'tags', value: [1] }], /value must be a string or list of strings/],
+      [[{ op: 'map', key: 'lang', mapping: {} }], /mapping must be a non-empty object/],
+      [[{ op: 'parseDate', key: 'd', unit: 'h' }], /unit must be "s" or "ms"/],
+      [[{ op: 'trim', key: 'x', target: '' }], /target must be a non-empty string/]
+    ])('rejects %j', (operations, message) => {
+      expect(() => MetadataOperationEngine.validate(operations)).toThrow(ValidationError);
+      expect(() => MetadataOperationEngine.validate(operations)).toThrow(message);
+    });
+  });
+
+  describe('apply', () => {
+    it('applies operations in order without touching the input', () => {
+      const metadata = { title: '  Hello World ', stale: true };
+      const result = MetadataOperationEngine.apply(metadata, [
+        { op: 'trim', key: 'title' },
+        { op: 'copy', from: 'title', to: 'slug' },
+        { op: 'lowercase', key: 'slug' },
+        { op: 'unset', key: 'stale' },
+        { op: 'set', key: 'version', value: 2 }
+      ]);
+
+      expect(result).toEqual({ title: 'Hello World', slug: 'hello world', version: 2 });
+      expect(metadata).toEqual({ title: '  Hello World ', stale: true });
+    });
+
+    it('treats operations on missing keys as no-ops', () => {
+      expect(MetadataOperationEngine.apply({ a: 'x' }, [
+        { op: 'lowercase', key: 'missing' },
+        { op: 'parseNumber', key: 'missing' },
+        { op: 'copy', from: 'missing', to: 'b' }
+      ])).toEqual({ a: 'x' });
+    });
+
+    it('parses numbers strictly', () => {
+      expect(MetadataOperationEngine.apply({ price: '1,234.5' }, [{ op: 'parseNumber', key: 'price' }])).toEqual({ price: 1234.5 });
+      expect(MetadataOperationEngine.apply({ n: ' 3.5e2 ' }, [{ op: 'parseNumber', key: 'n', target: 'm' }])).toEqual({ n: ' 3.5e2 ', m: 350 });
+      expect(() => MetadataOperationEngine.apply({ n: '12abc' }, [{ op: 'parseNumber', key: 'n' }])).toThrow(/not a number/);
+      expect(() => MetadataOperationEngine.apply({ n: '' }, [{ op: 'parseNumber', key: 'n' }])).toThrow(/not a number/);
+    });
+
+    it('parses dates to seconds by default and milliseconds on request', () => {
+      const metadata = { published: '2024-01-02T03:04:05Z' };
+      expect(MetadataOperationEngine.apply(metadata, [{ op: 'parseDate', key: 'published' }])).toEqual({ published: 1704164645 });
+      expect(MetadataOperationEngine.apply(metadata, [{ op: 'parseDate', key: 'published', unit: 'ms' }])).toEqual({ published: 1704164645000 });
+      expect(() => MetadataOperationEngine.apply({ published: 'last tuesday' }, [{ op: 'parseDate', key: 'published' }])).toThrow(/not a parseable date/);
+    });
+
+    it('appends without duplicates and promotes a string to a list', () => {
+      expect(MetadataOperationEngine.apply({ tags: 'a' }, [{ op: 'append', key: 'tags', value: ['a', 'b'] }])).toEqual({ tags: ['a', 'b'] });
+      expect(MetadataOperationEngine.apply({}, [{ op: 'append', key: 'tags', value: 'new' }])).toEqual({ tags: ['new'] });
+      expect(() => MetadataOperationEngine.apply({ tags: 3 }, [{ op: 'append', key: 'tags', value: 'x' }])).toThrow(/append needs/);
+    });
+
+    it('maps exact values and de-duplicates mapped lists', () => {
+      const mapping = { english: 'en', English: 'en' };
+      expect(MetadataOperationEngine.apply({ lang: 'English' }, [{ op: 'map', key: 'lang', mapping }])).toEqual({ lang: 'en' });
+      expect(MetadataOperationEngine.apply({ lang: ['english', 'English', 'fr'] }, [{ op: 'map', key: 'lang', mapping }])).toEqual({ lang: ['en', 'fr'] });
+      expect(MetadataOperationEngine.apply({ lang: 'toString' }, [{ op: 'map', key: 'lang', mapping }])).toEqual({ lang: 'toString' });
+    });
+
+    it('refuses to lowercase non-strings', () => {
+      expect(() => MetadataOperationEngine.apply({ n: 5 }, [{ op: 'lowercase', key: 'n' }])).toThrow(/needs a string/);
+    });
+  });
+
+  describe('isEqual', () => {
+    it('ignores key order but not values', () => {
+      expect(MetadataOperationEngine.isEqual({ a: 1, b: ['x'] }, { b: ['x'], a: 1 })).toBe(true);
+      expect(MetadataOperationEngine.isEqual({ a: 1 }, { a: '1' })).toBe(false);
+      expect(MetadataOperationEngine.isEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    });
+  });
+});
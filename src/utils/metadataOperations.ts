@@ -0,0 +1,182 @@
+// Metadata operations for bulk updates - a tiny instruction set applied to one record's metadata at a time
+// Pure functions, no Pinecone in here, so preview and the real run can't disagree
+
+import { RecordMetadata, RecordMetadataValue } from '@pinecone-database/pinecone';
+import { ValidationError } from './errors';
+
+export type MetadataOperation =
+  | { op: 'set'; key: string; value: RecordMetadataValue }
+  | { op: 'unset'; key: string }
+  | { op: 'copy'; from: string; to: string }
+  | { op: 'lowercase'; key: string }
+  | { op: 'trim'; key: string }
+  | { op: 'parseNumber'; key: string; target?: string }
+  | { op: 'parseDate'; key: string; target?: string; unit?: 's' | 'ms' }
+  | { op: 'append'; key: string; value: string | string[] }
+  | { op: 'map'; key: string; mapping: Record<string, string> };
+
+const OPERATION_NAMES = ['set', 'unset', 'copy', 'lowercase', 'trim', 'parseNumber', 'parseDate', 'append', 'map'];
+
+export class MetadataOperationEngine {
+
+  /**
+   * Check an operation list from a request body, so nothing gets written with half a plan
+   */
+  static validate(raw: unknown): MetadataOperation[] {
+    if (!Array.isArray(raw) || raw.length === 0) {
+      throw new ValidationError('operations must be a non-empty array');
+    }
+
+    return raw.map((operation, i) => {
+      const where = `operations[${i}]`;
+
+      if (typeof operation !== 'object' || operation === null || !OPERATION_NAMES.includes(operation.op)) {
+        throw new ValidationError(`${where}.op must be one of: ${OPERATION_NAMES.join(', ')}`);
+      }
+
+      const keys = operation.op === 'copy' ? ['from', 'to'] : ['key'];
+      for (const key of keys) {
+        if (typeof operation[key] !== 'string' || !operation[key]) {
+          throw new ValidationError(`${where}.${key} must be a non-empty string`);
+        }
+      }
+
+      if (operation.target !== undefined && (typeof operation.target !== 'string' || !operation.target)) {
+        throw new ValidationError(`${where}.target must be a non-empty string`);
+      }
+
+      if (operation.op === 'set' && !this.isMetadataValue(operation.value)) {
+        throw new ValidationError(`${where}.value must be a string, number, boolean or list of strings`);
+      }
+
+      if (operation.op === 'append') {
+        const values = Array.isArray(operation.value) ? operation.value : [operation.value];
+        if (values.length === 0 || !values.every((value: unknown) => typeof value === 'string')) {
+          throw new ValidationError(`${where}.value must be a string or list of strings`);
+        }
+      }
+
+      if (operation.op === 'map') {
+        const mapping = operation.mapping;
+        if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping) || Object.keys(mapping).length === 0 ||
+          !Object.values(mapping).every(value => typeof value === 'string')) {
+          throw new ValidationError(`${where}.mapping must be a non-empty object of string -> string`);
+        }
+      }
+
+      if (operation.op === 'parseDate' && operation.unit !== undefined && !['s', 'ms'].includes(operation.unit)) {
+        throw new ValidationError(`${where}.unit must be "s" or "ms"`);
+      }
+
+      return operation as MetadataOperation;
+    });
+  }
+
+  /**
+   * Apply the operations in order and return new metadata. Operations on a missing key are no-ops;
+   * values that can't be transformed (e.g. an unparseable date) throw, and the record is left alone.
+   */
+  static apply(metadata: RecordMetadata, operations: MetadataOperation[]): RecordMetadata {
+    const result: RecordMetadata = { ...metadata };
+
+    for (const operation of operations) {
+      switch (operation.op) {
+        case 'set':
+          result[operation.key] = operation.value;
+          break;
+
+        case 'unset':
+          delete result[operation.key];
+          break;
+
+        case 'copy':
+          if (operation.from in result) result[operation.to] = result[operation.from];
+          break;
+
+        case 'lowercase':
+        case 'trim': {
+          const value = result[operation.key];
+          if (value === undefined) break;
+          const transform = (text: string) => operation.op === 'lowercase' ? text.toLowerCase() : text.trim();
+          if (typeof value === 'string') {
+            result[operation.key] = transform(value);
+          } else if (Array.isArray(value)) {
+            result[operation.key] = value.map(transform);
+          } else {
+            throw new Error(`"${operation.key}" is a ${typeof value}, ${operation.op} needs a string`);
+          }
+          break;
+        }
+
+        case 'parseNumber': {
+          const value = result[operation.key];
+          if (value === undefined) break;
+          const parsed = typeof value === 'number' ? value : typeof value === 'string' ? this.parseNumber(value) : NaN;
+          if (!Number.isFinite(parsed)) {
+            throw new Error(`"${operation.key}" value ${JSON.stringify(value)} is not a number`);
+          }
+          result[operation.target || operation.key] = parsed;
+          break;
+        }
+
+        case 'parseDate': {
+          const value = result[operation.key];
+          if (value === undefined) break;
+          const time = typeof value === 'string' ? Date.parse(value) : NaN;
+          if (Number.isNaN(time)) {
+            throw new Error(`"${operation.key}" value ${JSON.stringify(value)} is not a parseable date`);
+          }
+          result[operation.target || operation.key] = operation.unit === 'ms' ? time : Math.floor(time / 1000);
+          break;
+        }
+
+        case 'append': {
+          const existing = result[operation.key];
+          const list = existing === undefined ? [] : Array.isArray(existing) ? [...existing] : typeof existing === 'string' ? [existing] : undefined;
+          if (!list) {
+            throw new Error(`"${operation.key}" is a ${typeof existing}, append needs a string or list of strings`);
+          }
+          const additions = Array.isArray(operation.value) ? operation.value : [operation.value];
+          for (const addition of additions) {
+            if (!list.includes(addition)) list.push(addition);
+          }
+          result[operation.key] = list;
+          break;
+        }
+
+        case 'map': {
+          // Exact-match value replacement; list elements are mapped one by one and de-duplicated
+          const value = result[operation.key];
+          const mapOne = (text: string) => Object.prototype.hasOwnProperty.call(operation.mapping, text) ? operation.mapping[text] : text;
+          if (typeof value === 'string') {
+            result[operation.key] = mapOne(value);
+          } else if (Array.isArray(value)) {
+            result[operation.key] = Array.from(new Set(value.map(mapOne)));
+          }
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Key order doesn't matter to Pinecone, so it doesn't matter here either
+  static isEqual(a: RecordMetadata, b: RecordMetadata): boolean {
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every(key => key in b && JSON.stringify(a[key]) === JSON.stringify(b[key]));
+  }
+
+  private static isMetadataValue(value: unknown): value is RecordMetadataValue {
+    return typeof value === 'string' || typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      (Array.isArray(value) && value.every(item => typeof item === 'string'));
+  }
+
+  // "1,234.5", " 42 " and "3.5e2" yes; "12abc" no - parseFloat is far too forgiving for this
+  private static parseNumber(text: string): number {
+    const cleaned = text.trim().replace(/,/g, '');
+    return cleaned === '' ? NaN : Number(cleaned);
+  }
+}
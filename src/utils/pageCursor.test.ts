@@ -0,0 +1,32 @@
+import { PageCursorCodec } from './pageCursor';
+import { ValidationError } from './errors';
+
+describe('PageCursorCodec', () => {
+  it('round-trips a cursor', () => {
+    const cursor = { token: 'eyJza2lwX3Bhc3Qi', offset: 37 };
+    expect(PageCursorCodec.decode(PageCursorCodec.encode(cursor))).toEqual(cursor);
+  });
+
+  it('round-trips the first page, which has no token', () => {
+    expect(PageCursorCodec.decode(PageCursorCodec.encode({ offset: 5 }))).toEqual({ token: undefined, offset: 5 });
+  });
+
+  it('produces URL-safe cursors', () => {
+    expect(PageCursorCodec.encode({ token: '???>>>', offset: 1 })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('starts from the beginning without a cursor', () => {
+    expect(PageCursorCodec.decode(undefined)).toEqual({ offset: 0 });
+    expect(PageCursorCodec.decode('')).toEqual({ offset: 0 });
+  });
+
+  it.each([
+    ['garbage', 'not-a-cursor'],
+    ['a negative offset', Buffer.from('{"offset":-1}').toString('base64url')],
+    ['a fractional offset', Buffer.from('{"offset":1.5}').toString('base64url')],
+    ['a missing offset', Buffer.from('{"token":"abc"}').toString('base64url')],
+    ['a non-string token', Buffer.from('{"token":42,"offset":0}').toString('base64url')]
+  ])('rejects %s', (_, cursor) => {
+    expect(() => PageCursorCodec.decode(cursor)).toThrow(ValidationError);
+  });
+});
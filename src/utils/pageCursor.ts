@@ -0,0 +1,35 @@
+// Opaque cursors for paginated listing and resumable scans
+// Clients get a base64url blob; inside is just the list page we're on and how far into it we got
+
+import { ValidationError } from './errors';
+
+export interface PageCursor {
+  token?: string; // Pinecone list pagination token, absent for the first page
+  offset: number; // Records already handed out from that page
+}
+
+export class PageCursorCodec {
+
+  static encode(cursor: PageCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor from a previous page. No cursor means the start; anything unrecognisable is a ValidationError.
+   */
+  static decode(cursor?: string): PageCursor {
+    if (!cursor) return { offset: 0 };
+
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (Number.isInteger(decoded.offset) && decoded.offset >= 0 &&
+          (decoded.token === undefined || typeof decoded.token === 'string')) {
+        return { token: decoded.token, offset: decoded.offset };
+      }
+    } catch (e) {
+      // Fall through to the validation error below
+    }
+
+    throw new ValidationError('Invalid cursor. Use the nextCursor value from a previous page.');
+  }
+}
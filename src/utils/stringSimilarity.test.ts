@@ -0,0 +1,35 @@
+import { levenshteinDistance, stringSimilarity } from './stringSimilarity';
+
+describe('levenshteinDistance', () => {
+  it.each([
+    ['', '', 0],
+    ['abc', '', 3],
+    ['', 'abc', 3],
+    ['kitten', 'sitting', 3],
+    ['flaw', 'lawn', 2],
+    ['same', 'same', 0]
+  ])('distance(%j, %j) is %i', (a, b, expected) => {
+    expect(levenshteinDistance(a, b)).toBe(expected);
+    expect(levenshteinDistance(b, a)).toBe(expected);
+  });
+});
+
+describe('stringSimilarity', () => {
+  it('is 100 for identical strings, including two empty ones', () => {
+    expect(stringSimilarity('', '')).toBe(100);
+    expect(stringSimilarity('pinecone', 'pinecone')).toBe(100);
+  });
+
+  it('is 0 against an empty string', () => {
+    expect(stringSimilarity('pinecone', '')).toBe(0);
+  });
+
+  it('is a rounded percentage of the longer string', () => {
+    expect(stringSimilarity('kitten', 'sitting')).toBe(57); // 4 of 7
+    expect(stringSimilarity('Report 2023', 'Report 2024')).toBe(91); // 10 of 11
+  });
+
+  it('is case sensitive', () => {
+    expect(stringSimilarity('ABC', 'abc')).toBe(0);
+  });
+});
@@ -0,0 +1,36 @@
+// String similarity helpers shared by deduplication and value canonicalization
+
+/**
+ * Levenshtein distance calculation
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,
+        matrix[j - 1][i] + 1,
+        matrix[j - 1][i - 1] + indicator
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
+
+/**
+ * Levenshtein-based similarity as a 0-100 percentage of the longer string
+ */
+export function stringSimilarity(str1: string, str2: string): number {
+  const longer = str1.length > str2.length ? str1 : str2;
+
+  if (longer.length === 0) return 100;
+
+  const distance = levenshteinDistance(str1, str2);
+  return Math.round(((longer.length - distance) / longer.length) * 100);
+}
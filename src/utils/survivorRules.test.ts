@@ -0,0 +1,83 @@
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import { SurvivorRule, SurvivorSelector } from './survivorRules';
+import { ValidationError } from './errors';
+
+const docs = (...metadata: RecordMetadata[]) => metadata.map((entry, i) => ({ id: `doc-${i}`, metadata: entry }));
+
+describe('SurvivorSelector', () => {
+  describe('parseRules', () => {
+    it('parses a JSON chain and drops unknown properties', () => {
+      expect(SurvivorSelector.parseRules('[{"rule":"highest","key":"version","extra":1},{"rule":"smallest-id","key":"ignored"}]'))
+        .toEqual([{ rule: 'highest', key: 'version' }, { rule: 'smallest-id' }]);
+    });
+
+    it('treats missing rules as none', () => {
+      expect(SurvivorSelector.parseRules(undefined)).toBeUndefined();
+      expect(SurvivorSelector.parseRules('')).toBeUndefined();
+    });
+
+    it.each([
+      ['[{', /not valid JSON/],
+      [{ rule: 'newest' }, /must be an array/],
+      [[{ rule: 'best' }], /survivorRules\[0\]\.rule must be one of/],
+      [[{ rule: 'newest' }, { rule: 'longest' }], /survivorRules\[1\] \(longest\) needs a metadata key/],
+      [[{ rule: 'preferred', key: 'source', values: [] }], /non-empty list of string values/]
+    ])('rejects %j', (raw, message) => {
+      expect(() => SurvivorSelector.parseRules(raw)).toThrow(ValidationError);
+      expect(() => SurvivorSelector.parseRules(raw)).toThrow(message);
+    });
+  });
+
+  describe('select', () => {
+    it('orders versions numerically, not as strings', () => {
+      const group = docs({ version: '1.9' }, { version: '1.10' }, { version: 'v1.2.3' });
+      expect(SurvivorSelector.select(group, [{ rule: 'highest', key: 'version' }])).toEqual({ id: 'doc-1', decidedBy: 'highest version' });
+      expect(SurvivorSelector.select(group, [{ rule: 'lowest', key: 'version' }])).toEqual({ id: 'doc-2', decidedBy: 'lowest version' });
+    });
+
+    it('treats "2" and "2.0" as equal, so the next rule decides', () => {
+      const group = docs({ version: '2', text: 'short' }, { version: '2.0', text: 'much longer' });
+      const decision = SurvivorSelector.select(group, [{ rule: 'highest', key: 'version' }, { rule: 'longest', key: 'text' }]);
+      expect(decision).toEqual({ id: 'doc-1', decidedBy: 'longest text' });
+    });
+
+    it('negates lowest and shortest so smaller wins', () => {
+      const group = docs({ rank: 3, text: 'abc' }, { rank: -1, text: 'abcdef' }, { rank: 10, text: 'a' });
+      expect(SurvivorSelector.select(group, [{ rule: 'lowest', key: 'rank' }]).id).toBe('doc-1');
+      expect(SurvivorSelector.select(group, [{ rule: 'highest', key: 'rank' }]).id).toBe('doc-2');
+      expect(SurvivorSelector.select(group, [{ rule: 'shortest', key: 'text' }]).id).toBe('doc-2');
+      expect(SurvivorSelector.select(group, [{ rule: 'longest', key: 'text' }]).id).toBe('doc-1');
+    });
+
+    it('lets members without the key lose, and skips rules nobody can answer', () => {
+      const group = docs({ title: 'x' }, { version: '1.0' }, { version: '0.9' });
+      expect(SurvivorSelector.select(group, [{ rule: 'lowest', key: 'version' }]).id).toBe('doc-2');
+      expect(SurvivorSelector.select(group, [{ rule: 'highest', key: 'missing' }, { rule: 'largest-id' }]))
+        .toEqual({ id: 'doc-2', decidedBy: 'largest id' });
+    });
+
+    it('prefers values earlier in the list, including inside list values', () => {
+      const group = docs({ source: 'blog' }, { source: ['misc', 'wiki'] }, { source: 'kb' });
+      const rules: SurvivorRule[] = [{ rule: 'preferred', key: 'source', values: ['kb', 'wiki'] }];
+      expect(SurvivorSelector.select(group, rules)).toEqual({ id: 'doc-2', decidedBy: 'preferred source' });
+      expect(SurvivorSelector.select(group.slice(0, 2), rules).id).toBe('doc-1');
+    });
+
+    it('picks by timestamp for newest and oldest', () => {
+      const group = docs({ lastModified: '2024-02-01' }, { timestamp: Date.parse('2024-03-01') }, { created: '2023-12-01' });
+      expect(SurvivorSelector.select(group, [{ rule: 'newest' }]).id).toBe('doc-1');
+      expect(SurvivorSelector.select(group, [{ rule: 'oldest' }]).id).toBe('doc-2');
+    });
+
+    it('falls back to group order when every rule ties', () => {
+      const group = docs({ version: '1.0' }, { version: '1.0' });
+      expect(SurvivorSelector.select(group, [{ rule: 'highest', key: 'version' }])).toEqual({ id: 'doc-0', decidedBy: 'group order' });
+      expect(SurvivorSelector.select(group, [])).toEqual({ id: 'doc-0', decidedBy: 'group order' });
+    });
+
+    it('keeps group order among equal IDs', () => {
+      const group = [{ id: 'b', metadata: {} }, { id: 'a', metadata: {} }, { id: 'a', metadata: {} }];
+      expect(SurvivorSelector.selectIndex(group, [{ rule: 'smallest-id' }])).toEqual({ index: 1, decidedBy: 'smallest id' });
+    });
+  });
+});
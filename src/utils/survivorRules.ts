@@ -0,0 +1,164 @@
+// Survivor selection for duplicate groups - an ordered chain of rules decides which record stays
+// Each rule narrows the group to its best members; the first rule left with one member decides
+
+import { RecordMetadata, RecordMetadataValue } from '@pinecone-database/pinecone';
+import { ValidationError } from './errors';
+import { MetadataMergeEngine } from './metadataMerge';
+
+export type SurvivorRule =
+  | { rule: 'highest' | 'lowest'; key: string } // Numbers, or version strings like "1.10.2"
+  | { rule: 'longest' | 'shortest'; key: string }
+  | { rule: 'preferred'; key: string; values: string[] } // Earlier in the list wins; other values lose
+  | { rule: 'newest' | 'oldest' } // lastModified / timestamp / created
+  | { rule: 'smallest-id' | 'largest-id' };
+
+export const SURVIVOR_RULES: SurvivorRule['rule'][] = [
+  'highest', 'lowest', 'longest', 'shortest', 'preferred', 'newest', 'oldest', 'smallest-id', 'largest-id'
+];
+
+export interface SurvivorDecision {
+  id: string;
+  decidedBy: string; // "highest version", ... or "group order" when every rule tied
+}
+
+const KEYED_RULES = ['highest', 'lowest', 'longest', 'shortest', 'preferred'];
+const VERSION_PATTERN = /^v?\d+(\.\d+)*$/i;
+
+export class SurvivorSelector {
+
+  /**
+   * Parse a rule chain from a query string or request body
+   */
+  static parseRules(raw: unknown): SurvivorRule[] | undefined {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+
+    let rules: any = raw;
+    if (typeof raw === 'string') {
+      try {
+        rules = JSON.parse(raw);
+      } catch (error: any) {
+        throw new ValidationError(`Invalid survivorRules: not valid JSON (${error.message})`);
+      }
+    }
+
+    if (!Array.isArray(rules)) {
+      throw new ValidationError('survivorRules must be an array like [{ "rule": "highest", "key": "version" }, { "rule": "smallest-id" }]');
+    }
+
+    return rules.map((rule: any, position: number) => {
+      const where = `survivorRules[${position}]`;
+
+      if (typeof rule !== 'object' || rule === null || !SURVIVOR_RULES.includes(rule.rule)) {
+        throw new ValidationError(`${where}.rule must be one of: ${SURVIVOR_RULES.join(', ')}`);
+      }
+
+      if (!KEYED_RULES.includes(rule.rule)) return { rule: rule.rule };
+
+      if (typeof rule.key !== 'string' || !rule.key) {
+        throw new ValidationError(`${where} (${rule.rule}) needs a metadata key`);
+      }
+      if (rule.rule !== 'preferred') return { rule: rule.rule, key: rule.key };
+
+      if (!Array.isArray(rule.values) || rule.values.length === 0 || !rule.values.every((value: unknown) => typeof value === 'string')) {
+        throw new ValidationError(`${where} (preferred) needs a non-empty list of string values`);
+      }
+      return { rule: 'preferred', key: rule.key, values: rule.values };
+    });
+  }
+
+  /**
+   * Pick the survivor of a group. A rule no member has a value for is skipped; members without a
+   * value lose to those with one. Ties left after the last rule go to the earliest in group order.
+   */
+  static select(documents: Array<{ id: string; metadata: RecordMetadata }>, rules: SurvivorRule[]): SurvivorDecision {
+    const { index, decidedBy } = this.selectIndex(documents, rules);
+    return { id: documents[index].id, decidedBy };
+  }
+
+  /**
+   * Same as select, but returns the survivor's position - for groups where an ID can appear
+   * more than once (the same record in several namespaces)
+   */
+  static selectIndex(documents: Array<{ id: string; metadata: RecordMetadata }>, rules: SurvivorRule[]): { index: number; decidedBy: string } {
+    let remaining = documents.map((_, index) => index);
+
+    for (const rule of rules) {
+      if (remaining.length === 1) break;
+
+      // An ID rule always decides - equal IDs go to group order
+      if (rule.rule === 'smallest-id' || rule.rule === 'largest-id') {
+        const pick = remaining.reduce((best, index) => {
+          const [id, bestId] = [documents[index].id, documents[best].id];
+          return (rule.rule === 'smallest-id' ? id < bestId : id > bestId) ? index : best;
+        });
+        return { index: pick, decidedBy: this.describe(rule) };
+      }
+
+      const ranked = remaining
+        .map(index => ({ index, rank: this.rank(rule, documents[index]) }))
+        .filter((entry): entry is { index: number; rank: number[] } => entry.rank !== undefined);
+      if (ranked.length === 0) continue;
+
+      const best = ranked.reduce((top, entry) => this.compare(entry.rank, top.rank) > 0 ? entry : top).rank;
+      remaining = ranked.filter(entry => this.compare(entry.rank, best) === 0).map(entry => entry.index);
+
+      if (remaining.length === 1) {
+        return { index: remaining[0], decidedBy: this.describe(rule) };
+      }
+    }
+
+    return { index: remaining[0], decidedBy: 'group order' };
+  }
+
+  static describe(rule: SurvivorRule): string {
+    return 'key' in rule ? `${rule.rule} ${rule.key}` : rule.rule.replace('-', ' ');
+  }
+
+  // Higher rank wins, so rules that prefer small values negate theirs
+  private static rank(rule: SurvivorRule, doc: { id: string; metadata: RecordMetadata }): number[] | undefined {
+    switch (rule.rule) {
+      case 'highest':
+      case 'lowest': {
+        const parts = this.numericParts(doc.metadata[rule.key]);
+        return parts && (rule.rule === 'highest' ? parts : parts.map(part => -part));
+      }
+      case 'longest':
+      case 'shortest': {
+        const value = doc.metadata[rule.key];
+        if (value === undefined || value === null) return undefined;
+        const length = Array.isArray(value) ? value.join('').length : String(value).length;
+        return [rule.rule === 'longest' ? length : -length];
+      }
+      case 'preferred': {
+        const value = doc.metadata[rule.key];
+        const candidates = Array.isArray(value) ? value : [value];
+        const positions = candidates
+          .map(candidate => rule.values.indexOf(String(candidate)))
+          .filter(position => position >= 0);
+        return positions.length > 0 ? [-Math.min(...positions)] : undefined;
+      }
+      case 'newest':
+      case 'oldest': {
+        const time = MetadataMergeEngine.documentTime(doc.metadata);
+        return time === undefined ? undefined : [rule.rule === 'newest' ? time : -time];
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  // Version-aware: "1.10" beats "1.9", and "2" equals "2.0"
+  private static numericParts(value: RecordMetadataValue | undefined): number[] | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? [value] : undefined;
+    if (typeof value !== 'string' || !VERSION_PATTERN.test(value.trim())) return undefined;
+    return value.trim().replace(/^v/i, '').split('.').map(Number);
+  }
+
+  private static compare(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const difference = (a[i] ?? 0) - (b[i] ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  }
+}